@@ -0,0 +1,17 @@
+declare module 'espree' {
+  import * as estree from 'estree';
+
+  interface ParseOptions {
+    attachComment?: boolean;
+    comment?: boolean;
+    loc?: boolean;
+    ecmaVersion?: number;
+    sourceType?: 'script' | 'module';
+  }
+
+  interface ParsedProgram extends estree.Program {
+    comments?: estree.Comment[];
+  }
+
+  export function parse(text: string, options?: ParseOptions): ParsedProgram;
+}
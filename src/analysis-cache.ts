@@ -0,0 +1,118 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {createHash} from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as logging from 'plylog';
+import {Warning} from 'polymer-analyzer/lib/warning/warning';
+
+import {DocumentDeps} from './analyzer';
+import {mkdirpSync} from './fs-utils';
+
+const logger = logging.getLogger('polymer-build.analysis-cache');
+
+// Bump this whenever the format of a cache entry changes, so that entries
+// written by older versions are ignored.
+const cacheVersion = 2;
+
+/**
+ * The analysis results of a single document, along with the content hash of
+ * every file that the results depended on.
+ */
+export interface CachedAnalysis {
+  version: number;
+  // Content hashes keyed by url, in the order they were loaded.
+  hashes: {[url: string]: string};
+  deps: DocumentDeps;
+  warnings: Warning[];
+}
+
+export function hashContents(contents: string): string {
+  return createHash('sha1').update(contents).digest('hex');
+}
+
+/**
+ * Stores analysis results on disk, one file per document, so that they can
+ * be reused by later builds.
+ */
+export class AnalysisCache {
+  dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  /**
+   * Resolves with the cached analysis for `url`, or null if there isn't one.
+   * The caller is responsible for checking that the hashes still match.
+   */
+  get(url: string): Promise<CachedAnalysis> {
+    return new Promise((resolve, _reject) => {
+      fs.readFile(this._entryPath(url), 'utf8', (err, data) => {
+        if (err) {
+          resolve(null);
+          return;
+        }
+        try {
+          const entry: CachedAnalysis = JSON.parse(data);
+          resolve(entry.version === cacheVersion ? entry : null);
+        } catch (e) {
+          logger.debug(`ignoring unreadable cache entry for ${url}`, e);
+          resolve(null);
+        }
+      });
+    });
+  }
+
+  /**
+   * Writes the analysis for `url` to the cache. Failing to write to the cache
+   * is not an error, since the analysis can always be repeated.
+   */
+  set(url: string,
+      hashes: {[url: string]: string},
+      deps: DocumentDeps,
+      warnings: Warning[]): Promise<void> {
+    const entry: CachedAnalysis = {
+      version: cacheVersion,
+      hashes: hashes,
+      deps: deps,
+      // Only keep the serializable parts of each warning.
+      warnings: warnings.map((w) => ({
+                               code: w.code,
+                               message: w.message,
+                               severity: w.severity,
+                               sourceRange: w.sourceRange,
+                             })),
+    };
+    try {
+      mkdirpSync(this.dir);
+    } catch (err) {
+      logger.warn(`unable to create analysis cache directory: ${err}`);
+      return Promise.resolve();
+    }
+    return new Promise<void>((resolve, _reject) => {
+      fs.writeFile(this._entryPath(url), JSON.stringify(entry), (err) => {
+        if (err) {
+          logger.warn(`unable to write analysis cache for ${url}: ${err}`);
+        }
+        resolve();
+      });
+    });
+  }
+
+  _entryPath(url: string): string {
+    return path.join(this.dir, `${hashContents(url)}.json`);
+  }
+}
@@ -12,6 +12,7 @@
  * http://polymer.github.io/PATENTS.txt
  */
 
+import * as fs from 'fs';
 import {Deferred, Resolver as HydrolysisResolver} from 'hydrolysis';
 import * as path from 'path';
 import {Analyzer} from 'polymer-analyzer';
@@ -24,17 +25,40 @@ import {parse as parseUrl} from 'url';
 import * as logging from 'plylog';
 import {ProjectConfig} from 'polymer-project-config';
 
+import {AnalysisCache, hashContents} from './analysis-cache';
+import {normalizeBasePath, stripBasePath} from './base-path';
+import {ExternalDependencyPolicy, getMirrorUrl, vendorExternalReferences} from './external-dependencies';
 import {FileCB, VinylReaderTransform} from './streams';
 import {urlFromPath, pathFromUrl} from './path-transformers';
+import {getOriginalRange} from './source-maps';
+import {applyWarningPolicy, countFailures, getCodeFrame, ReportedWarning, WarningPolicy, WarningReporter} from './warnings';
 
 
 const minimatchAll = require('minimatch-all');
 const logger = logging.getLogger('cli.build.analyzer');
 
+export type ImportType = 'html-import' | 'html-script' | 'html-style';
+
+const importTypes = new Set(['html-import', 'html-script', 'html-style']);
+
+/**
+ * An import of one file by another.
+ */
+export interface ImportEdge {
+  // The url of the importing document
+  from: string;
+  // The url of the imported file, which may be external
+  to: string;
+  type: ImportType;
+}
+
 export interface DocumentDeps {
   imports: Array<string>;
   scripts: Array<string>;
   styles: Array<string>;
+  // Every import in the document and its dependencies, including imports of
+  // external files.
+  edges: Array<ImportEdge>;
 }
 
 export interface DepsIndex {
@@ -47,29 +71,75 @@ export interface DepsIndex {
   fragmentToFullDeps: Map<string, DocumentDeps>;
 }
 
+export interface StreamAnalyzerOptions {
+  /**
+   * A directory to store analysis results in, relative to the project root,
+   * so that they can be reused by later builds. Results for a fragment are
+   * reused only when the contents of the fragment and all of its dependencies
+   * are unchanged.
+   */
+  analysisCacheDir?: string;
+
+  /**
+   * The url path that the app is served under (ex: '/tenant-x/app/').
+   * Absolute urls under this path are resolved relative to the project root.
+   * Defaults to '/'.
+   */
+  basePath?: string;
+
+  /**
+   * Overrides the severity of analysis warnings, suppresses them, or makes
+   * them fail the build.
+   */
+  warningPolicy?: WarningPolicy;
+
+  /**
+   * Reporters that receive the analysis warnings at the end of the build, in
+   * addition to them being logged (ex: `junitReporter('analysis.xml')`).
+   */
+  warningReporters?: WarningReporter[];
+
+  /**
+   * What to do with external dependencies: 'allow' (the default), 'error'
+   * or 'vendor'. See `ExternalDependencyPolicy`.
+   */
+  externalDependencies?: ExternalDependencyPolicy;
+
+  /**
+   * The directory that external dependencies are vendored from, relative to
+   * the project root, laid out as `<host>/<path>`. Defaults to `vendor`.
+   */
+  externalMirrorDir?: string;
+}
+
 /**
  * Detects if a url is external by checking it's protocol. Also checks if it
  * starts with '//', which can be an alias to the page's current protocol
  * in the browser.
  */
-function isDependencyExternal(url: string) {
+export function isDependencyExternal(url: string) {
   // TODO(fks) 08-01-2016: Add additional check for files on current hostname
   // but external to this application root. Ignore them.
   return parseUrl(url).protocol !== null || url.startsWith('//');
 }
 
 /**
- * Get a longer, single-line error message for logging and exeption-handling
- * analysis Warning objects.
+ * Get a longer error message for logging and exeption-handling analysis
+ * Warning objects, with the position of the warning and the code around it.
  *
  * Note: We cannot use WarningPrinter.printWarning() from the polymer-analyzer
- * codebase because after minification & optimization its reported source
- * ranges don't match the original source code. Instead we use this custom
- * message generator that only includes the file name in the error message.
+ * codebase because after splitting, minification & optimization its reported
+ * source ranges don't match the original source code. Instead the analyzer
+ * traces each warning back to its original source first (see
+ * `StreamAnalyzer#getReportedWarnings()`).
  */
-function getFullWarningMessage(warning: Warning): string {
-  return `In ${warning.sourceRange.file}: [${warning.code}] - ${warning.message
-  }`;
+function getFullWarningMessage(warning: ReportedWarning): string {
+  const range = warning.sourceRange;
+  const position =
+      (range) ? `:${range.start.line + 1}:${range.start.column + 1}` : '';
+  const message = `In ${range && range.file}${position}: [${warning.code
+  }] - ${warning.message}`;
+  return (warning.codeFrame) ? `${message}\n${warning.codeFrame}` : message;
 }
 
 export class StreamAnalyzer extends Transform {
@@ -77,12 +147,25 @@ export class StreamAnalyzer extends Transform {
 
   loader: StreamLoader;
   analyzer: Analyzer;
+  cache: AnalysisCache = null;
+  basePath: string;
+  warningPolicy: WarningPolicy;
+  warningReporters: WarningReporter[];
+  externalDependencies: ExternalDependencyPolicy;
+  externalMirrorDir: string;
+  // The urls of vendored copies of external dependencies, mapped to the
+  // external urls that they were copied from
+  vendoredUrls = new Map<string, string>();
 
   private _dependenciesStream = new PassThrough({objectMode: true});
   private _dependenciesProcessingStream = new VinylReaderTransform();
+  private _dependenciesStreamEnded = false;
 
   files = new Map<string, File>();
   warnings = new Set<Warning>();
+  // The warnings found by the analysis of each fragment, by url, so that
+  // re-analyzing some fragments only replaces their own warnings.
+  private _warningsByFragment = new Map<string, Warning[]>();
   allFragmentsToAnalyze: Set<string>;
   foundDependencies = new Set<string>();
 
@@ -94,10 +177,19 @@ export class StreamAnalyzer extends Transform {
   };
   _resolveDependencyAnalysis: (index: DepsIndex) => void;
 
-  constructor(config: ProjectConfig) {
+  constructor(config: ProjectConfig, options: StreamAnalyzerOptions = {}) {
     super({objectMode: true});
 
     this.config = config;
+    this.basePath = normalizeBasePath(options.basePath);
+    this.warningPolicy = options.warningPolicy || {};
+    this.warningReporters = options.warningReporters || [];
+    this.externalDependencies = options.externalDependencies || 'allow';
+    this.externalMirrorDir = options.externalMirrorDir || 'vendor';
+    if (options.analysisCacheDir) {
+      this.cache = new AnalysisCache(
+          path.resolve(this.config.root, options.analysisCacheDir));
+    }
 
     this.loader = new StreamLoader(this);
     this.analyzer = new Analyzer({
@@ -126,6 +218,9 @@ export class StreamAnalyzer extends Transform {
 
   _transform(file: File, _encoding: string, callback: FileCB): void {
     const filePath = file.path;
+    if (this.externalDependencies === 'vendor') {
+      this._vendorExternalDependencies(file);
+    }
     this.addFile(file);
 
     // If our resolver is waiting for this file, resolve its deferred loader
@@ -147,6 +242,7 @@ export class StreamAnalyzer extends Transform {
           // If there are no more fragments to analyze, close the dependency
           // stream
           if (this.allFragmentsToAnalyze.size === 0) {
+            this._dependenciesStreamEnded = true;
             this._dependenciesStream.end();
           }
         } catch (error) {
@@ -159,11 +255,39 @@ export class StreamAnalyzer extends Transform {
   }
 
   _flush(done: (error?: any) => void) {
-    this.printWarnings();
-    const allWarningCount = this.countWarningsByType();
-    const errorWarningCount = allWarningCount.get(Severity.ERROR);
-    if (errorWarningCount > 0) {
-      done(new Error(`${errorWarningCount} error(s) occurred during build.`));
+    const warnings = this.getReportedWarnings();
+    this.printWarnings(warnings);
+    try {
+      this.warningReporters.forEach(
+          (reporter) => reporter.report(warnings, this.config.root));
+    } catch (error) {
+      done(error);
+      return;
+    }
+    const errorCount = countFailures(warnings);
+    const warningCount =
+        countFailures(warnings, this.warningPolicy) - errorCount;
+    if (warningCount > 0) {
+      done(new Error(
+          `${errorCount} error(s) and ${warningCount} warning(s) occurred ` +
+          `during build (failOnWarnings is set).`));
+      return;
+    }
+    if (errorCount > 0) {
+      done(new Error(`${errorCount} error(s) occurred during build.`));
+      return;
+    }
+
+    const externalUrls = this._getExternalUrls();
+    if (externalUrls.length > 0 && this.externalDependencies !== 'allow') {
+      for (const url of externalUrls) {
+        logger.error(
+            (this.externalDependencies === 'vendor') ?
+                `external dependency not found in ${this.externalMirrorDir
+                }: ${url}` :
+                `external dependency found: ${url}`);
+      }
+      done(new Error(`${externalUrls.length} external dependencies found`));
       return;
     }
 
@@ -181,12 +305,50 @@ export class StreamAnalyzer extends Transform {
     done();
   }
 
+  /**
+   * Replaces the references to external dependencies in an HTML file with
+   * references to their copies in the mirror directory, where they exist.
+   */
+  _vendorExternalDependencies(file: File): void {
+    if (!file.isBuffer() || !file.path.endsWith('.html')) {
+      return;
+    }
+    const fileUrl = urlFromPath(this.config.root, path.normalize(file.path));
+    const contents = file.contents.toString();
+    const vendoredContents =
+        vendorExternalReferences(contents, fileUrl, (externalUrl) => {
+          const mirrorUrl = getMirrorUrl(this.externalMirrorDir, externalUrl);
+          if (!fs.existsSync(pathFromUrl(this.config.root, mirrorUrl))) {
+            return null;
+          }
+          logger.debug(`vendoring ${externalUrl} as ${mirrorUrl}`);
+          this.vendoredUrls.set(mirrorUrl, externalUrl);
+          return mirrorUrl;
+        });
+    if (vendoredContents !== contents) {
+      file.contents = new Buffer(vendoredContents);
+    }
+  }
+
+  /**
+   * Returns every external url that the analyzed fragments depend on.
+   */
+  _getExternalUrls(): string[] {
+    const urls = new Set<string>();
+    for (const deps of this._dependencyAnalysis.fragmentToFullDeps.values()) {
+      deps.edges.filter((edge) => isDependencyExternal(edge.to))
+          .forEach((edge) => urls.add(edge.to));
+    }
+    return Array.from(urls);
+  }
+
   getFile(filepath: string): File {
     const url = urlFromPath(this.config.root, filepath);
     return this.getFileByUrl(url);
   }
 
   getFileByUrl(url: string): File {
+    url = stripBasePath(this.basePath, url);
     if (url.startsWith('/')) {
       url = url.substring(1);
     }
@@ -208,8 +370,65 @@ export class StreamAnalyzer extends Transform {
     this.files.set(urlFromPath(this.config.root, filepath), file);
   }
 
-  printWarnings(): void {
-    for (const warning of this.warnings) {
+  /**
+   * Returns the analysis warnings, traced back to their original sources,
+   * with the warning policy applied.
+   */
+  getReportedWarnings(): ReportedWarning[] {
+    const warnings = Array.from(this.warnings).map((w) => this._mapWarning(w));
+    return applyWarningPolicy(warnings, this.warningPolicy);
+  }
+
+  /**
+   * Returns a copy of `warning` with its source range traced back through
+   * the source map of the file it is in, if that file has one. This maps
+   * warnings in files split by `HtmlSplitter`, and in files changed by any
+   * upstream transform that updates source maps, to the original code. A code
+   * frame from the file is added when its contents are available.
+   */
+  _mapWarning(warning: Warning): ReportedWarning {
+    const range = warning.sourceRange;
+    const file = range && this.getFileByUrl(range.file);
+    if (!file) {
+      return warning;
+    }
+    const original = getOriginalRange(file, range);
+    if (!original) {
+      return Object.assign({}, warning, {
+        codeFrame: getCodeFrame(file.contents.toString(), range),
+      });
+    }
+    const sourcePath = path.resolve(file.base, original.sourcePath);
+    const sourceUrl = (sourcePath.startsWith(this.config.root)) ?
+        urlFromPath(this.config.root, sourcePath) :
+        original.sourcePath;
+    const sourceRange = {
+      file: sourceUrl,
+      start: original.start,
+      end: original.end,
+    };
+    const contents = original.contents || this._readSource(sourcePath);
+    return Object.assign({}, warning, {
+      sourceRange: sourceRange,
+      codeFrame: (contents != null) ? getCodeFrame(contents, sourceRange) :
+                                      undefined,
+    });
+  }
+
+  /**
+   * Returns the contents of the original source file at `filePath`, or null
+   * if it can't be read.
+   */
+  _readSource(filePath: string): string {
+    try {
+      return fs.readFileSync(filePath, 'utf8');
+    } catch (e) {
+      return null;
+    }
+  }
+
+  printWarnings(warnings = this.getReportedWarnings()): void {
+    for (const warning of warnings) {
       const message = getFullWarningMessage(warning);
       if (warning.severity === Severity.ERROR) {
         logger.error(message);
@@ -221,33 +440,39 @@ export class StreamAnalyzer extends Transform {
     }
   }
 
-  private countWarningsByType(): Map<Severity, number> {
-    const errorCountMap = new Map<Severity, number>();
-    errorCountMap.set(Severity.INFO, 0);
-    errorCountMap.set(Severity.WARNING, 0);
-    errorCountMap.set(Severity.ERROR, 0);
-    for (const warning of this.warnings) {
-      errorCountMap.set(
-          warning.severity, errorCountMap.get(warning.severity) + 1);
-    }
-    return errorCountMap;
-  }
-
-
   /**
    * Attempts to retreive document-order transitive dependencies for `url`.
    */
   async _getDependencies(url: string): Promise<DocumentDeps> {
+    if (this.cache) {
+      const cached = await this._getCachedDependencies(url);
+      if (cached) {
+        return cached;
+      }
+    }
+
     const doc = await this.analyzer.analyze(url);
+    const warnings = doc.getWarnings(true);
 
-    doc.getWarnings(true).forEach(w => this.warnings.add(w));
+    this._addWarnings(url, warnings);
 
     const scripts = new Set<string>();
     const styles = new Set<string>();
     const imports = new Set<string>();
+    const edges = new Map<string, ImportEdge>();
 
     for (const importDep of doc.getByKind('import')) {
-      const importUrl = importDep.url;
+      const importUrl = stripBasePath(this.basePath, importDep.url);
+      if (importTypes.has(importDep.type)) {
+        const fromUrl = (importDep.sourceRange) ?
+            stripBasePath(this.basePath, importDep.sourceRange.file) :
+            url;
+        edges.set(`${fromUrl} ${importDep.type} ${importUrl}`, {
+          from: fromUrl,
+          to: importUrl,
+          type: <ImportType>importDep.type,
+        });
+      }
       if (isDependencyExternal(importUrl)) {
         logger.debug(`ignoring external dependency: ${importUrl}`);
       } else if (importDep.type === 'html-script') {
@@ -265,11 +490,51 @@ export class StreamAnalyzer extends Transform {
       scripts: Array.from(scripts),
       styles: Array.from(styles),
       imports: Array.from(imports),
+      edges: Array.from(edges.values()),
     };
     logger.debug(`dependencies analyzed for: ${url}`, deps);
+
+    if (this.cache) {
+      const hashes: {[url: string]: string} = {};
+      for (const depUrl of [url].concat(
+               deps.imports, deps.scripts, deps.styles)) {
+        hashes[depUrl] = hashContents(await this.loader.load(depUrl));
+      }
+      await this.cache.set(url, hashes, deps, warnings);
+    }
     return deps;
   }
 
+  /**
+   * Returns the cached dependencies of `url` if the document and all of its
+   * dependencies still have the same contents that they had when the cached
+   * analysis was done, or null otherwise. The cached warnings are reported
+   * as if the document had been analyzed again.
+   */
+  async _getCachedDependencies(url: string): Promise<DocumentDeps> {
+    const cached = await this.cache.get(url);
+    if (!cached) {
+      return null;
+    }
+    // Files are checked in the order they were loaded, so that a changed
+    // document is found before any dependencies that it no longer has.
+    for (const depUrl of Object.keys(cached.hashes)) {
+      const contents = await this.loader.load(depUrl);
+      if (hashContents(contents) !== cached.hashes[depUrl]) {
+        logger.debug(`analysis cache is stale for: ${url}`, {changed: depUrl});
+        return null;
+      }
+    }
+    logger.debug(`using cached analysis for: ${url}`);
+    this._addWarnings(url, cached.warnings);
+    return cached.deps;
+  }
+
+  _addWarnings(url: string, warnings: Warning[]) {
+    this._warningsByFragment.set(url, warnings);
+    warnings.forEach(w => this.warnings.add(w));
+  }
+
   _addDependencies(filePath: string, deps: DocumentDeps) {
     // Make sure function is being called properly
     if (!this.allFragmentsToAnalyze.has(filePath)) {
@@ -278,23 +543,96 @@ export class StreamAnalyzer extends Transform {
 
     // Add dependencies to _dependencyAnalysis object, and push them through
     // the dependency stream.
-    this._dependencyAnalysis.fragmentToFullDeps.set(filePath, deps);
-    this._dependencyAnalysis.fragmentToDeps.set(filePath, deps.imports);
+    this._indexDependencies(filePath, deps);
     deps.scripts.forEach((url) => this.pushDependency(url));
     deps.styles.forEach((url) => this.pushDependency(url));
-    deps.imports.forEach((url) => {
-      this.pushDependency(url);
+    deps.imports.forEach((url) => this.pushDependency(url));
+  }
 
+  _indexDependencies(filePath: string, deps: DocumentDeps) {
+    this._dependencyAnalysis.fragmentToFullDeps.set(filePath, deps);
+    this._dependencyAnalysis.fragmentToDeps.set(filePath, deps.imports);
+    deps.imports.forEach((url) => {
       const entrypointList: string[] =
           this._dependencyAnalysis.depsToFragments.get(url);
       if (entrypointList) {
-        entrypointList.push(filePath);
+        if (!entrypointList.includes(filePath)) {
+          entrypointList.push(filePath);
+        }
       } else {
         this._dependencyAnalysis.depsToFragments.set(url, [filePath]);
       }
     });
   }
 
+  _unindexDependencies(filePath: string) {
+    this._dependencyAnalysis.fragmentToFullDeps.delete(filePath);
+    this._dependencyAnalysis.fragmentToDeps.delete(filePath);
+    const depsToFragments = this._dependencyAnalysis.depsToFragments;
+    for (const [url, fragments] of depsToFragments) {
+      const remaining = fragments.filter((f) => f !== filePath);
+      if (remaining.length === 0) {
+        depsToFragments.delete(url);
+      } else {
+        depsToFragments.set(url, remaining);
+      }
+    }
+  }
+
+  /**
+   * Returns the fragments that depend on the file at `filePath`, either
+   * directly or transitively. A fragment is also considered to depend on
+   * itself.
+   */
+  getDependentFragments(filePath: string): string[] {
+    const url = urlFromPath(this.config.root, filePath);
+    const fragments = new Set<string>(
+        this._dependencyAnalysis.depsToFragments.get(url) || []);
+    const fullDeps = this._dependencyAnalysis.fragmentToFullDeps;
+    for (const fragment of fullDeps.keys()) {
+      const deps = fullDeps.get(fragment);
+      if (deps.scripts.includes(url) || deps.styles.includes(url)) {
+        fragments.add(fragment);
+      }
+    }
+    if (this.config.isFragment(filePath)) {
+      fragments.add(filePath);
+    }
+    return this.config.allFragments.filter((f) => fragments.has(f));
+  }
+
+  /**
+   * Re-analyzes the given fragments after files that they depend on have
+   * changed, and updates the dependency index in place. Every other fragment
+   * keeps its existing analysis, and its warnings. Changed files should be
+   * given to `addFile()` before calling this.
+   */
+  async reanalyzeFragments(fragments: string[]): Promise<DepsIndex> {
+    // The analyzer caches documents along with their dependencies, so clear
+    // everything to make sure that changes to any dependency are seen.
+    this.analyzer.clearCaches();
+    const urls = fragments.map((f) => urlFromPath(this.config.root, f));
+    urls.forEach((url) => this._warningsByFragment.delete(url));
+    this.warnings.clear();
+    for (const warnings of this._warningsByFragment.values()) {
+      warnings.forEach(w => this.warnings.add(w));
+    }
+    for (const fragment of fragments) {
+      const deps =
+          await this._getDependencies(urlFromPath(this.config.root, fragment));
+      this._unindexDependencies(fragment);
+      this._indexDependencies(fragment, deps);
+    }
+    // Only the warnings of the re-analyzed fragments are new.
+    const newWarnings: Warning[] = [];
+    for (const url of urls) {
+      newWarnings.push(...this._warningsByFragment.get(url));
+    }
+    this.printWarnings(applyWarningPolicy(
+        newWarnings.map((w) => this._mapWarning(w)), this.warningPolicy));
+    return this._dependencyAnalysis;
+  }
+
   /**
    * Process the given dependency before pushing it through the stream.
    * Each dependency is only pushed through once to avoid duplicates.
@@ -314,11 +652,86 @@ export class StreamAnalyzer extends Transform {
       return;
     }
 
+    // Once the dependency stream has ended (ex: when re-analyzing fragments
+    // after a change) new dependencies are read directly from disk instead.
+    if (this._dependenciesStreamEnded) {
+      logger.debug('new dependency found, reading...', dependencyFilePath);
+      this._readDependency(dependencyFilePath);
+      return;
+    }
+
     logger.debug(
         'new dependency found, pushing into dependency stream...',
         dependencyFilePath);
     this._dependenciesStream.push(dependencyFilePath);
   }
+
+  _readDependency(filePath: string) {
+    fs.readFile(filePath, (err?: Error, data?: Buffer) => {
+      if (err) {
+        this.emit('error', err);
+        return;
+      }
+      const file = new File({path: filePath, contents: data});
+      this.addFile(file);
+      if (this.loader.hasDeferredFile(filePath)) {
+        this.loader.resolveDeferredFile(filePath, file);
+      }
+    });
+  }
+}
+
+/**
+ * A `StreamAnalyzer` for one build of a project (see
+ * `PolymerProject.createBuild()`). Rather than repeating the dependency
+ * analysis, it reuses the analysis of the project's own analyzer, which must
+ * be somewhere upstream in the pipeline. Files that pass through it are
+ * collected, so that they are bundled as they are in this build.
+ */
+export class BuildAnalyzer extends StreamAnalyzer {
+  projectAnalyzer: StreamAnalyzer;
+
+  constructor(projectAnalyzer: StreamAnalyzer) {
+    super(projectAnalyzer.config, {basePath: projectAnalyzer.basePath});
+    this.projectAnalyzer = projectAnalyzer;
+  }
+
+  _transform(file: File, _encoding: string, callback: FileCB): void {
+    this.addFile(file);
+    const filePath = file.path;
+    if (this.loader.hasDeferredFile(filePath)) {
+      this.loader.resolveDeferredFile(filePath, file);
+    }
+    callback(null, file);
+  }
+
+  _flush(done: (error?: any) => void) {
+    this.projectAnalyzer.analyzeDependencies.then((depsIndex) => {
+      this._dependencyAnalysis = depsIndex;
+      this._resolveDependencyAnalysis(depsIndex);
+      done();
+    }, (error: any) => done(error));
+  }
+
+  /**
+   * Files that weren't part of this build's stream are taken from the project
+   * analyzer, or read from disk if it doesn't have them either.
+   */
+  pushDependency(dependencyUrl: string) {
+    if (this.getFileByUrl(dependencyUrl)) {
+      return;
+    }
+    const projectFile = this.projectAnalyzer.getFileByUrl(dependencyUrl);
+    if (!projectFile) {
+      this._readDependency(pathFromUrl(this.config.root, dependencyUrl));
+      return;
+    }
+    this.addFile(projectFile);
+    const filePath = path.normalize(projectFile.path);
+    if (this.loader.hasDeferredFile(filePath)) {
+      this.loader.resolveDeferredFile(filePath, projectFile);
+    }
+  }
 }
 
 // TODO(fks) 09-21-2016: Remove once the move to polymer-analyzer is completed
@@ -372,7 +785,8 @@ export class StreamLoader implements BackwardsCompatibleUrlLoader {
       return Promise.resolve('');
     }
 
-    const urlPath = decodeURIComponent(urlObject.pathname);
+    const urlPath = stripBasePath(
+        this.analyzer.basePath, decodeURIComponent(urlObject.pathname));
     const filePath = pathFromUrl(this.config.root, urlPath);
     const file = this.analyzer.getFile(filePath);
 
@@ -0,0 +1,118 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import * as dom5 from 'dom5';
+import * as parse5 from 'parse5';
+import * as path from 'path';
+import {posix as posixPath} from 'path';
+import {ProjectConfig} from 'polymer-project-config';
+import {Transform} from 'stream';
+import File = require('vinyl');
+
+import {urlFromPath} from './path-transformers';
+import {insertLinks} from './resource-hints';
+import {FileCB} from './streams';
+
+/**
+ * Returns `basePath` with a leading & trailing slash, or '/' if it is empty.
+ */
+export function normalizeBasePath(basePath: string): string {
+  if (!basePath) {
+    return '/';
+  }
+  if (!basePath.startsWith('/')) {
+    basePath = `/${basePath}`;
+  }
+  if (!basePath.endsWith('/')) {
+    basePath = `${basePath}/`;
+  }
+  return basePath;
+}
+
+/**
+ * Returns the root-relative url of an absolute url path that the app serves
+ * under `basePath`. Paths outside of `basePath` are returned unchanged.
+ */
+export function stripBasePath(basePath: string, urlPath: string): string {
+  if (basePath !== '/' && urlPath.startsWith(basePath)) {
+    return urlPath.substring(basePath.length);
+  }
+  return urlPath;
+}
+
+/**
+ * Returns the absolute url path that the file at the root-relative `url` is
+ * served from.
+ */
+export function getPublicUrl(basePath: string, url: string): string {
+  return basePath + url;
+}
+
+/**
+ * Returns the contents of an HTML document with its `<base href>` set to
+ * `href`, adding a `<base>` element if it doesn't have one.
+ */
+export function setBaseHref(contents: string, href: string): string {
+  const doc = parse5.parse(contents, {locationInfo: true});
+  const base = dom5.query(doc, dom5.predicates.hasTagName('base'));
+  if (!base) {
+    const newBase = dom5.constructors.element('base');
+    dom5.setAttribute(newBase, 'href', href);
+    return insertLinks(contents, [newBase]);
+  }
+  if (dom5.getAttribute(base, 'href') === href) {
+    return contents;
+  }
+  // <base> is a void element, so it is located by its start tag alone.
+  const location = <parse5.StartTagLocationInfo>base.__location;
+  const hrefLocation = location && location.attrs && location.attrs['href'];
+  if (!hrefLocation) {
+    dom5.setAttribute(base, 'href', href);
+    return parse5.serialize(doc);
+  }
+  return contents.substring(0, hrefLocation.startOffset) + `href="${href}"` +
+      contents.substring(hrefLocation.endOffset);
+}
+
+/**
+ * A `Transform` stream that sets the `<base href>` of the entrypoint to the
+ * directory that it is served from under `basePath`, so that its relative
+ * urls resolve the same way wherever the app is deployed. Every other file
+ * passes through untouched.
+ */
+export class BaseHrefUpdater extends Transform {
+  config: ProjectConfig;
+  basePath: string;
+
+  constructor(config: ProjectConfig, basePath: string) {
+    super({objectMode: true});
+    this.config = config;
+    this.basePath = basePath;
+  }
+
+  _transform(file: File, _encoding: string, callback: FileCB): void {
+    if (path.normalize(file.path) !== path.normalize(this.config.entrypoint) ||
+        !file.isBuffer()) {
+      callback(null, file);
+      return;
+    }
+    const entrypointDir =
+        posixPath.dirname(urlFromPath(this.config.root, file.path));
+    const href = (entrypointDir === '.') ?
+        this.basePath :
+        getPublicUrl(this.basePath, `${entrypointDir}/`);
+    file.contents = new Buffer(setBaseHref(file.contents.toString(), href));
+    callback(null, file);
+  }
+}
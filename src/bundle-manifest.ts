@@ -0,0 +1,167 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import * as parse5 from 'parse5';
+
+import {StreamAnalyzer} from './analyzer';
+import {CompressedVariant} from './compress';
+import {getHtmlReferences, HtmlReference} from './html-references';
+import {pathFromUrl, urlFromPath} from './path-transformers';
+
+/**
+ * A machine-readable description of every bundle in a build, keyed by bundle
+ * url.
+ */
+export interface BundleManifest { bundles: {[url: string]: BundleInfo}; }
+
+export interface BundleInfo {
+  // The total size in bytes of the files in the bundle, before inlining.
+  inputSize: number;
+  // The size in bytes of the bundle, after inlining.
+  outputSize: number;
+  files: BundledFileInfo[];
+  // The precompressed variants of the bundle, once `project.compress()` has
+  // added them.
+  compressed?: CompressedBundleInfo[];
+}
+
+export interface CompressedBundleInfo {
+  url: string;
+  encoding: string;
+  size: number;
+}
+
+export interface BundledFileInfo {
+  url: string;
+  // The size in bytes of the file, before inlining.
+  size: number;
+  // The size in bytes of what the file adds to the bundle, after inlining.
+  // HTML files lose the imports, scripts & stylesheets that are inlined (or
+  // left out, if already loaded) in their place, while scripts & styles are
+  // inlined whole.
+  outputSize: number;
+  // The fragments that depend on this file.
+  sharedBy: string[];
+}
+
+/**
+ * Returns a manifest describing the given bundles.
+ *
+ * @param bundles The html imports that were inlined into each bundle, as
+ *     decided by the bundler.
+ * @param contents The final contents of each bundle, after inlining.
+ */
+export function createBundleManifest(
+    analyzer: StreamAnalyzer,
+    bundles: Map<string, string[]>,
+    contents: Map<string, string>): BundleManifest {
+  const root = analyzer.config.root;
+  const manifest: BundleManifest = {bundles: {}};
+
+  for (const bundleUrl of contents.keys()) {
+    const bundleFilePath = pathFromUrl(root, bundleUrl);
+    const htmlUrls =
+        (bundles.get(bundleUrl) || []).filter((url) => !contents.has(url));
+    // Fragments are bundles of themselves and their dependencies, while
+    // shared bundles only contain their dependencies.
+    if (analyzer.config.isFragment(bundleFilePath)) {
+      htmlUrls.unshift(bundleUrl);
+    }
+
+    // Scripts & styles are inlined along with the html files that use them.
+    const urls = new Set<string>();
+    const references = new Map<string, HtmlReference[]>();
+    for (const htmlUrl of htmlUrls) {
+      urls.add(htmlUrl);
+      references.set(htmlUrl, getReferences(analyzer, htmlUrl));
+      references.get(htmlUrl)
+          .filter((reference) => reference.type !== 'import')
+          .forEach((reference) => urls.add(reference.url));
+    }
+
+    const files: BundledFileInfo[] = [];
+    for (const url of urls) {
+      const file = analyzer.getFileByUrl(url);
+      if (!file || !file.contents) {
+        continue;
+      }
+      const contents = file.contents.toString();
+      const size = Buffer.byteLength(contents);
+      files.push({
+        url: url,
+        size: size,
+        outputSize:
+            size - getReferencesSize(contents, references.get(url) || []),
+        sharedBy: analyzer.getDependentFragments(pathFromUrl(root, url))
+                      .map((fragment) => urlFromPath(root, fragment)),
+      });
+    }
+
+    manifest.bundles[bundleUrl] = {
+      inputSize: files.reduce((size, file) => size + file.size, 0),
+      outputSize: Buffer.byteLength(contents.get(bundleUrl)),
+      files: files,
+    };
+  }
+  return manifest;
+}
+
+/**
+ * Adds each compressed variant of a bundle to the bundle's entry in
+ * `manifest`. Variants of other files are ignored.
+ */
+export function addCompressedVariants(
+    manifest: BundleManifest, variants: CompressedVariant[]): void {
+  for (const variant of variants) {
+    const bundle = manifest.bundles[variant.originalUrl];
+    if (!bundle) {
+      continue;
+    }
+    bundle.compressed = bundle.compressed || [];
+    bundle.compressed.push({
+      url: variant.url,
+      encoding: variant.encoding,
+      size: variant.size,
+    });
+  }
+}
+
+/**
+ * Returns the HTML imports, scripts & stylesheets that the html file at `url`
+ * loads directly.
+ */
+function getReferences(analyzer: StreamAnalyzer, url: string): HtmlReference[] {
+  const file = analyzer.getFileByUrl(url);
+  if (!file || !file.contents) {
+    return [];
+  }
+  return getHtmlReferences(file.contents.toString(), url, analyzer.basePath);
+}
+
+/**
+ * Returns the total size in bytes of the elements in `contents` that make the
+ * given references, which are replaced when their files are inlined.
+ */
+function getReferencesSize(
+    contents: string, references: HtmlReference[]): number {
+  let size = 0;
+  for (const reference of references) {
+    const location = <parse5.LocationInfo>reference.element.__location;
+    if (location) {
+      size += Buffer.byteLength(
+          contents.substring(location.startOffset, location.endOffset));
+    }
+  }
+  return size;
+}
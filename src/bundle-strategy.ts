@@ -0,0 +1,84 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {createHash} from 'crypto';
+
+export interface BundleStrategyContext {
+  // The url of the app shell, or null if the project doesn't have one.
+  shellUrl: string;
+  // The url of the default shared bundle.
+  sharedBundleUrl: string;
+}
+
+/**
+ * Decides which bundle a dependency is inlined into, given the urls of every
+ * fragment that depends on it. Returns either:
+ *
+ *   - null, to inline the dependency into each of those fragments,
+ *   - the shell's url, to inline it into the shell, or
+ *   - the url of a shared bundle to generate, which every one of those
+ *     fragments will then import.
+ *
+ * Every dependency of a shared dependency is itself used by (at least) the
+ * same fragments, so a strategy should never assign a dependency to a shared
+ * bundle while leaving one of its own dependencies in the fragments.
+ */
+export type BundleStrategy =
+    (dep: string, fragmentUrls: string[], context: BundleStrategyContext) =>
+        string;
+
+/**
+ * Shares dependencies that are used by at least `minFragments` fragments,
+ * by inlining them into the shell if there is one, or into a single shared
+ * bundle if not. Anything used by fewer fragments is inlined into each of
+ * them. This is the default strategy, with `minFragments` of 2.
+ */
+export function shareWithThreshold(minFragments: number): BundleStrategy {
+  return (_dep, fragmentUrls, context) => {
+    if (fragmentUrls.length < minFragments) {
+      return null;
+    }
+    return context.shellUrl || context.sharedBundleUrl;
+  };
+}
+
+/**
+ * Generates one shared bundle for every combination of fragments that share
+ * dependencies, so that each fragment only loads code that it needs.
+ * Dependencies of the shell are always inlined into the shell.
+ */
+export function sharePerCombination(): BundleStrategy {
+  return (_dep, fragmentUrls, context) => {
+    if (fragmentUrls.length < 2) {
+      return null;
+    }
+    if (context.shellUrl && fragmentUrls.includes(context.shellUrl)) {
+      return context.shellUrl;
+    }
+    const combination = createHash('sha1')
+                            .update(fragmentUrls.slice().sort().join('\n'))
+                            .digest('hex')
+                            .substring(0, 8);
+    return context.sharedBundleUrl.replace(/\.html$/, `-${combination}.html`);
+  };
+}
+
+/**
+ * Inlines every dependency into the shell, or into a single shared bundle
+ * if there is no shell.
+ */
+export function mergeIntoShell(): BundleStrategy {
+  return (_dep, _fragmentUrls, context) =>
+             context.shellUrl || context.sharedBundleUrl;
+}
@@ -21,28 +21,107 @@ import File = require('vinyl');
 import * as logging from 'plylog';
 import {ProjectConfig} from 'polymer-project-config';
 
-import {urlFromPath} from './path-transformers';
+import {pathFromUrl, urlFromPath} from './path-transformers';
 import {StreamAnalyzer} from './analyzer';
+import {getPublicUrl} from './base-path';
+import {BundleManifest, createBundleManifest} from './bundle-manifest';
+import {BundleStrategy, shareWithThreshold} from './bundle-strategy';
+import {createJoinedScriptsSourceMap, CspHashes, extractInlineScripts, getInlineScriptHashes, joinScripts} from './csp';
+import {createLink} from './resource-hints';
+import {createInlinedSourceMap, getSourceSpans, SourceMapOptions, SourceMappedFile, SourceSpan} from './source-maps';
 
 
 // non-ES module
 const Vulcanize = require('vulcanize');
 const logger = logging.getLogger('cli.build.bundle');
 
+export interface BundlerOptions extends SourceMapOptions {
+  /**
+   * If set, a JSON build manifest describing every bundle is added to the
+   * bundler's output at this path, relative to the project root.
+   */
+  bundleManifestPath?: string;
+
+  /**
+   * Decides which bundle each dependency is inlined into. Defaults to
+   * `shareWithThreshold(2)`: dependencies used by more than one fragment are
+   * bundled into the shell, or into a single shared bundle if there is no
+   * shell.
+   */
+  bundleStrategy?: BundleStrategy;
+
+  /**
+   * Build for a Content-Security-Policy that forbids inline scripts. The
+   * scripts of each bundle are moved into a sibling `.js` file (ex:
+   * `shell.html` loads `shell.js`), which the bundler adds to its output.
+   */
+  csp?: boolean;
+
+  /**
+   * If set, the sha256 hashes of the inline scripts left in each bundle are
+   * added to the bundler's output as JSON at this path, relative to the
+   * project root.
+   */
+  cspHashesPath?: string;
+}
+
 export class Bundler extends Transform {
   config: ProjectConfig;
 
   sharedBundleUrl: string;
 
   analyzer: StreamAnalyzer;
-  sharedFile: File;
+  // Generated shared bundles, keyed by url
+  sharedFiles = new Map<string, File>();
 
-  constructor(config: ProjectConfig, analyzer: StreamAnalyzer) {
+  bundleStrategy: BundleStrategy;
+  bundleManifestPath: string;
+  csp: boolean;
+  cspHashesPath: string;
+  sourceMaps: boolean;
+
+  /**
+   * Resolves with a description of every bundle, once they have all been
+   * built. Rejects if bundling fails.
+   */
+  bundleManifest: Promise<BundleManifest>;
+  _resolveBundleManifest: (manifest: BundleManifest) => void;
+  _rejectBundleManifest: (error: any) => void;
+
+  /**
+   * Resolves with the hashes of the inline scripts left in each bundle, once
+   * they have all been built.
+   */
+  cspHashes: Promise<CspHashes>;
+  _resolveCspHashes: (hashes: CspHashes) => void;
+  _rejectCspHashes: (error: any) => void;
+
+  constructor(
+      config: ProjectConfig,
+      analyzer: StreamAnalyzer,
+      options: BundlerOptions = {}) {
     super({objectMode: true});
 
     this.config = config;
     this.analyzer = analyzer;
     this.sharedBundleUrl = 'shared-bundle.html';
+    this.bundleStrategy = options.bundleStrategy || shareWithThreshold(2);
+    this.bundleManifestPath = options.bundleManifestPath;
+    this.csp = !!options.csp;
+    this.cspHashesPath = options.cspHashesPath;
+    this.sourceMaps = options.sourceMaps !== false;
+    this.bundleManifest = new Promise((resolve, reject) => {
+      this._resolveBundleManifest = resolve;
+      this._rejectBundleManifest = reject;
+    });
+    this.cspHashes = new Promise((resolve, reject) => {
+      this._resolveCspHashes = resolve;
+      this._rejectCspHashes = reject;
+    });
+    // Failures are reported by the stream itself, so they aren't also
+    // reported as unhandled rejections when nothing waits for these.
+    this.bundleManifest.catch(() => {});
+    this.cspHashes.catch(() => {});
   }
 
   _transform(
@@ -59,54 +138,232 @@ export class Bundler extends Transform {
   }
 
   _flush(done: (error?: any) => void) {
-    this._buildBundles().then((bundles: Map<string, string>) => {
-      for (const fragment of this.config.allFragments) {
-        const file = this.analyzer.getFile(fragment);
-        console.assert(file != null);
-        const contents = bundles.get(fragment);
-        file.contents = new Buffer(contents);
-        this.push(file);
+    this.buildBundleFiles(this.config.allFragments)
+        .then((files: File[]) => {
+          for (const file of files) {
+            this.push(file);
+          }
+          const cspHashes = this.getCspHashes(files);
+          if (this.cspHashesPath) {
+            this.push(new File({
+              cwd: this.config.root,
+              base: this.config.root,
+              path: path.resolve(this.config.root, this.cspHashesPath),
+              contents: new Buffer(JSON.stringify(cspHashes, null, 2)),
+            }));
+          }
+          this._resolveCspHashes(cspHashes);
+          return this.getBundleManifest(files);
+        })
+        .then((manifest: BundleManifest) => {
+          if (this.bundleManifestPath) {
+            this.push(new File({
+              cwd: this.config.root,
+              base: this.config.root,
+              path: path.resolve(this.config.root, this.bundleManifestPath),
+              contents: new Buffer(JSON.stringify(manifest, null, 2)),
+            }));
+          }
+          this._resolveBundleManifest(manifest);
+          // end the stream
+          done();
+        })
+        .catch((error: any) => {
+          this._rejectBundleManifest(error);
+          this._rejectCspHashes(error);
+          done(error);
+        });
+  }
+
+  /**
+   * Returns a manifest describing the given bundled files: the files that
+   * went into each one, their sizes, and the fragments that share them.
+   */
+  async getBundleManifest(bundledFiles: File[]): Promise<BundleManifest> {
+    const bundles = await this.getBundles();
+    const contents = new Map<string, string>();
+    // Scripts moved out of bundles in CSP mode aren't bundles themselves.
+    for (const file of bundledFiles.filter((f) => f.path.endsWith('.html'))) {
+      contents.set(
+          urlFromPath(this.config.root, file.path), file.contents.toString());
+    }
+    return createBundleManifest(this.analyzer, bundles, contents);
+  }
+
+  /**
+   * Returns the hashes of the inline scripts left in each of the given
+   * bundled files.
+   */
+  getCspHashes(bundledFiles: File[]): CspHashes {
+    const hashes: CspHashes = {};
+    for (const file of bundledFiles) {
+      if (file.path.endsWith('.html')) {
+        hashes[urlFromPath(this.config.root, file.path)] =
+            getInlineScriptHashes(file.contents.toString());
+      }
+    }
+    return hashes;
+  }
+
+  /**
+   * Bundles the given fragments, along with any shared bundles, and resolves
+   * with the bundled files. The analyzer's own copies of the
+   * fragments are left untouched so that they can be bundled again later (ex:
+   * after a change in watch mode).
+   */
+  async buildBundleFiles(fragments: string[]): Promise<File[]> {
+    const bundles = await this._buildBundles(fragments);
+    const bundleDeps = await this.getBundles();
+    const files: File[] = [];
+    const spansByFile = new Map<File, SourceSpan[]>();
+    for (const fragment of fragments) {
+      const fragmentFile = this.analyzer.getFile(fragment);
+      console.assert(fragmentFile != null);
+      const file = fragmentFile.clone({deep: true, contents: false});
+      const contents = bundles.get(fragment);
+      const spans = this._getSourceSpans(
+          bundleDeps, urlFromPath(this.config.root, fragment));
+      this._setBundleContents(file, contents, spans);
+      spansByFile.set(file, spans);
+      files.push(file);
+    }
+    for (const [url, sharedFile] of this.sharedFiles) {
+      const contents = bundles.get(url);
+      if (contents != null) {
+        const spans = this._getSourceSpans(bundleDeps, url);
+        this._setBundleContents(sharedFile, contents, spans);
+        spansByFile.set(sharedFile, spans);
+        files.push(sharedFile);
       }
-      const sharedBundle = bundles.get(this.sharedBundleUrl);
-      if (sharedBundle) {
-        const contents = bundles.get(this.sharedBundleUrl);
-        this.sharedFile.contents = new Buffer(contents);
-        this.push(this.sharedFile);
+    }
+    if (this.csp) {
+      for (const file of files.slice()) {
+        const scriptFile = this._extractScripts(file, spansByFile.get(file));
+        if (scriptFile) {
+          files.push(scriptFile);
+        }
       }
-      // end the stream
-      done();
+    }
+    return files;
+  }
+
+  /**
+   * Moves the inline scripts of a bundle file into a sibling `.js` file, and
+   * returns that file. Returns null if the bundle has no scripts to move.
+   * Throws if a file in the stream already has the script file's path.
+   */
+  _extractScripts(file: SourceMappedFile, spans: SourceSpan[]):
+      SourceMappedFile {
+    const scriptPath = file.path.replace(/\.html$/, '.js');
+    const extracted = extractInlineScripts(
+        file.contents.toString(), path.basename(scriptPath));
+    if (extracted.scripts.length === 0) {
+      return null;
+    }
+    if (this.analyzer.getFile(scriptPath) != null) {
+      throw new Error(
+          `Can't move the inline scripts of ${file.relative} into ` +
+          `${path.relative(file.base, scriptPath)}, since that file ` +
+          `already exists.`);
+    }
+    this._setBundleContents(file, extracted.html, spans);
+    const scriptFile: SourceMappedFile = new File({
+      cwd: file.cwd,
+      base: file.base,
+      path: scriptPath,
+      contents: new Buffer(joinScripts(extracted.scripts)),
     });
+    if (this.sourceMaps) {
+      scriptFile.sourceMap = createJoinedScriptsSourceMap(
+          scriptFile.relative, extracted.scripts, spans);
+    }
+    return scriptFile;
   }
 
-  async _buildBundles(): Promise<Map<string, string>> {
-    const bundles = await this._getBundles();
-    const sharedDepsBundle = (this.config.shell) ?
-        urlFromPath(this.config.root, this.config.shell) :
-        this.sharedBundleUrl;
-    const sharedDeps = bundles.get(sharedDepsBundle) || [];
+  /**
+   * Sets the vulcanized contents of a bundle file, along with a source map
+   * that traces its inlined scripts & styles back to the files they came from.
+   */
+  _setBundleContents(
+      file: SourceMappedFile,
+      contents: string,
+      spans: SourceSpan[]) {
+    file.contents = new Buffer(contents);
+    if (this.sourceMaps) {
+      file.sourceMap = createInlinedSourceMap(file.relative, contents, spans);
+    } else {
+      delete file.sourceMap;
+    }
+  }
+
+  /**
+   * Returns every script & style that vulcanize may have inlined into the
+   * given bundle, in the order that they are inlined: those of the HTML
+   * files bundled into it, in document order, then those of the bundle file
+   * itself, then every script & stylesheet file that it may have inlined.
+   * Returns no spans if source maps are turned off.
+   */
+  _getSourceSpans(bundles: Map<string, string[]>, bundleUrl: string):
+      SourceSpan[] {
+    if (!this.sourceMaps) {
+      return [];
+    }
+    const sharedBundleUrls = new Set(this.getSharedBundleUrls(bundles));
+    const htmlUrls = (bundles.get(bundleUrl) || [])
+                         .filter((url) => !sharedBundleUrls.has(url))
+                         .concat([bundleUrl]);
+    const files = htmlUrls.map(
+        (url) => this.analyzer.getFile(pathFromUrl(this.config.root, url)));
+    for (const file of this.analyzer.files.values()) {
+      if (/\.(js|css)$/.test(file.path)) {
+        files.push(file);
+      }
+    }
+    const spans: SourceSpan[] = [];
+    for (const file of files) {
+      if (file && file.contents) {
+        spans.push(...getSourceSpans(file));
+      }
+    }
+    return spans;
+  }
+
+  async _buildBundles(fragments: string[]): Promise<Map<string, string>> {
+    const bundles = await this.getBundles();
+    const shellUrl = this._getShellUrl();
+    const sharedBundleUrls = this.getSharedBundleUrls(bundles);
     const promises: Promise<{url: string, contents: string}>[] = [];
 
+    // Vulcanize reads the shell through the analyzer's loader, so the shared
+    // imports are added to the analyzer's copy of it while bundling. The
+    // original is put back afterwards, so that re-analyzing the shell (ex: in
+    // watch mode) doesn't see imports of what used to be shared.
+    let shellFile: File = null;
+    let originalShellContents: Buffer = null;
     if (this.config.shell) {
-      const shellFile = this.analyzer.getFile(this.config.shell);
+      shellFile = this.analyzer.getFile(this.config.shell);
       console.assert(shellFile != null);
+      originalShellContents = <Buffer>shellFile.contents;
       const newShellContent = this._addSharedImportsToShell(bundles);
       shellFile.contents = new Buffer(newShellContent);
     }
 
-    for (const fragment of this.config.allFragments) {
+    for (const fragment of fragments) {
       const fragmentUrl = urlFromPath(this.config.root, fragment);
-      const addedImports = (this.config.isShell(fragment)) ? [] : [
-        posixPath.relative(posixPath.dirname(fragmentUrl), sharedDepsBundle)
-      ];
-      const excludes = (this.config.isShell(fragment)) ?
+      const sharedBundles = (this.config.isShell(fragment)) ?
           [] :
-          sharedDeps.concat(sharedDepsBundle);
+          this._getImportedBundles(bundles, fragmentUrl);
+      const addedImports =
+          sharedBundles.map((url) => this._getImportHref(fragmentUrl, url));
+      const excludes = this._getBundledDeps(bundles, sharedBundles);
 
       promises.push(new Promise((resolve, reject) => {
         const vulcanize = new Vulcanize({
           abspath: null,
           fsResolver: this.analyzer.loader,
-          addedImports: addedImports,
+          // vulcanize prepends each added import, so reverse them to keep
+          // their order
+          addedImports: addedImports.reverse(),
           stripExcludes: excludes,
           inlineScripts: true,
           inlineCss: true,
@@ -124,12 +381,31 @@ export class Bundler extends Transform {
         });
       }));
     }
-    // vulcanize the shared bundle
-    if (!this.config.shell && sharedDeps && sharedDeps.length !== 0) {
-      logger.info(`generating shared bundle...`);
-      promises.push(this._generateSharedBundle(sharedDeps));
+    // vulcanize the shared bundles
+    this.sharedFiles.clear();
+    for (const url of sharedBundleUrls) {
+      logger.info(`generating shared bundle ${url}...`);
+      // A shared bundle's own dependencies may be in the shell, or in a
+      // bundle that is shared by more fragments.
+      const importedBundles =
+          this._getImportedBundles(bundles, url)
+              .filter((importedUrl) => importedUrl !== shellUrl);
+      const excludeBundles =
+          (shellUrl) ? [shellUrl].concat(importedBundles) : importedBundles;
+      promises.push(this._generateSharedBundle(
+          url,
+          bundles.get(url),
+          importedBundles,
+          this._getBundledDeps(bundles, excludeBundles)));
+    }
+    let vulcanizedBundles: {url: string, contents: string}[];
+    try {
+      vulcanizedBundles = await Promise.all(promises);
+    } finally {
+      if (shellFile) {
+        shellFile.contents = originalShellContents;
+      }
     }
-    const vulcanizedBundles = await Promise.all(promises);
     const contentsMap = new Map();
     for (const bundle of vulcanizedBundles) {
       contentsMap.set(bundle.url, bundle.contents);
@@ -137,6 +413,85 @@ export class Bundler extends Transform {
     return contentsMap;
   }
 
+  /**
+   * Returns the href that the bundle at `fromUrl` should import the bundle at
+   * `url` with. Hrefs are relative, unless the app is served under a base
+   * path, in which case they are absolute so that they don't depend on where
+   * the importing document is served from.
+   */
+  _getImportHref(fromUrl: string, url: string): string {
+    const basePath = this.analyzer.basePath;
+    return (basePath === '/') ?
+        posixPath.relative(posixPath.dirname(fromUrl), url) :
+        getPublicUrl(basePath, url);
+  }
+
+  _getShellUrl(): string {
+    return (this.config.shell) ?
+        urlFromPath(this.config.root, this.config.shell) :
+        null;
+  }
+
+  /**
+   * Returns the urls of the generated shared bundles in `bundles` (as
+   * returned by `getBundles()`), i.e. every bundle that isn't a fragment.
+   */
+  getSharedBundleUrls(bundles: Map<string, string[]>): string[] {
+    const fragmentUrls = new Set(this.config.allFragments.map(
+        (fragment) => urlFromPath(this.config.root, fragment)));
+    return Array.from(bundles.keys()).filter((url) => !fragmentUrls.has(url));
+  }
+
+  /**
+   * Returns the urls of the bundles that must be loaded before the given
+   * fragment or shared bundle: the shell, if there is one, followed by the
+   * shared bundles that it uses. Shared bundles are ordered from the most
+   * widely used to the least, since a bundle's dependencies are always
+   * shared by at least the same fragments as the bundle itself.
+   */
+  _getImportedBundles(bundles: Map<string, string[]>, url: string): string[] {
+    const shellUrl = this._getShellUrl();
+    const sharedBundleUrls = this.getSharedBundleUrls(bundles);
+    const importers = new Map<string, string[]>();
+    for (const sharedBundleUrl of sharedBundleUrls) {
+      importers.set(
+          sharedBundleUrl,
+          Array.from(bundles.keys())
+              .filter((from) => bundles.get(from).includes(sharedBundleUrl)));
+    }
+
+    let imported: string[];
+    if (importers.has(url)) {
+      // A shared bundle needs every bundle that's loaded whenever it is.
+      const bundleImporters = importers.get(url);
+      imported = sharedBundleUrls.filter((other) => {
+        const otherImporters = importers.get(other);
+        return other !== url &&
+            otherImporters.length > bundleImporters.length &&
+            bundleImporters.every((from) => otherImporters.includes(from));
+      });
+    } else {
+      const imports = bundles.get(url) || [];
+      imported = sharedBundleUrls.filter(
+          (sharedBundleUrl) => imports.includes(sharedBundleUrl));
+    }
+    imported.sort((a, b) => importers.get(b).length - importers.get(a).length);
+    return (shellUrl) ? [shellUrl].concat(imported) : imported;
+  }
+
+  /**
+   * Returns the dependencies that are inlined into the given bundles, along
+   * with the bundles themselves.
+   */
+  _getBundledDeps(bundles: Map<string, string[]>, bundleUrls: string[]):
+      string[] {
+    const deps: string[] = [];
+    for (const url of bundleUrls) {
+      deps.push(...(bundles.get(url) || []), url);
+    }
+    return deps;
+  }
+
   _addSharedImportsToShell(bundles: Map<string, string[]>): string {
     console.assert(this.config.shell != null);
     const shellUrl = urlFromPath(this.config.root, this.config.shell);
@@ -177,44 +532,51 @@ export class Bundler extends Transform {
     // Append all shared imports to the end of <head>
     const head = dom5.query(doc, dom5.predicates.hasTagName('head'));
     for (const dep of shellDeps) {
-      const newImport = dom5.constructors.element('link');
-      dom5.setAttribute(newImport, 'rel', 'import');
-      dom5.setAttribute(newImport, 'href', dep);
-      dom5.append(head, newImport);
+      dom5.append(head, createLink('import', dep));
     }
     const newContents = parse5.serialize(doc);
     return newContents;
   }
 
-  _generateSharedBundle(sharedDeps: string[]): Promise<any> {
+  _generateSharedBundle(
+      url: string,
+      sharedDeps: string[],
+      importedBundles: string[],
+      excludes: string[]): Promise<any> {
     return new Promise((resolve, reject) => {
       const contents =
           sharedDeps.map((d) => `<link rel="import" href="${d}">`).join('\n');
 
-      const sharedFsPath = path.resolve(this.config.root, this.sharedBundleUrl);
-      this.sharedFile = new File({
+      const sharedFsPath = path.resolve(this.config.root, url);
+      const sharedFile = new File({
         cwd: this.config.root,
         base: this.config.root,
         path: sharedFsPath,
         contents: new Buffer(contents),
       });
+      this.sharedFiles.set(url, sharedFile);
 
       // make the shared bundle visible to vulcanize
-      this.analyzer.addFile(this.sharedFile);
+      this.analyzer.addFile(sharedFile);
 
       const vulcanize = new Vulcanize({
         abspath: null,
         fsResolver: this.analyzer.loader,
+        // vulcanize prepends each added import, so reverse them to keep
+        // their order
+        addedImports:
+            importedBundles.map((b) => this._getImportHref(url, b)).reverse(),
+        stripExcludes: excludes,
         inlineScripts: true,
         inlineCss: true,
-        inputUrl: this.sharedBundleUrl,
+        inputUrl: url,
       });
       vulcanize.process(null, (err: any, doc: any) => {
         if (err) {
           reject(err);
         } else {
           resolve({
-            url: this.sharedBundleUrl,
+            url: url,
             contents: doc,
           });
         }
@@ -222,11 +584,22 @@ export class Bundler extends Transform {
     });
   }
 
-  _getBundles() {
+  /**
+   * Resolves with the html imports that go into each bundle, keyed by bundle
+   * url, once the analyzer has analyzed every fragment. Each bundle lists its
+   * dependencies in document order, along with the urls of the shared
+   * bundles that it loads (see `getSharedBundleUrls()`). Fragments with
+   * nothing to inline are left out.
+   */
+  getBundles(): Promise<Map<string, string[]>> {
     return this.analyzer.analyzeDependencies.then((indexes) => {
       const depsToEntrypoints = indexes.depsToFragments;
       const fragmentToDeps = indexes.fragmentToDeps;
       const bundles = new Map<string, string[]>();
+      const context = {
+        shellUrl: this._getShellUrl(),
+        sharedBundleUrl: this.sharedBundleUrl,
+      };
 
       const addImport = (from: string, to: string) => {
         let imports: string[];
@@ -241,12 +614,13 @@ export class Bundler extends Transform {
         }
       };
 
-      // We want to collect dependencies that appear in > 1 entrypoint, but
-      // we need to collect them in document order, so rather than iterate
-      // directly through each dependency in depsToEntrypoints, we iterate
-      // through fragments in fragmentToDeps, which has dependencies in
-      // order for each fragment. Then we iterate through dependencies for
-      // each fragment and look up how many fragments depend on it.
+      // We want to collect shared dependencies, but we need to collect them
+      // in document order, so rather than iterate directly through each
+      // dependency in depsToEntrypoints, we iterate through fragments in
+      // fragmentToDeps, which has dependencies in order for each fragment.
+      // Then we iterate through dependencies for each fragment and ask the
+      // bundle strategy where each one belongs, based on the fragments that
+      // depend on it.
       // This assumes an ordering between fragments, since they could have
       // conflicting orders between their top level imports. The shell should
       // always come first.
@@ -254,16 +628,15 @@ export class Bundler extends Transform {
         const fragmentUrl = urlFromPath(this.config.root, fragment);
         const dependencies = fragmentToDeps.get(fragment);
         for (const dep of dependencies) {
-          const fragmentCount = depsToEntrypoints.get(dep).length;
-          if (fragmentCount > 1) {
-            if (this.config.shell) {
-              addImport(urlFromPath(this.config.root, this.config.shell), dep);
-            } else {
-              addImport(this.sharedBundleUrl, dep);
-              addImport(fragmentUrl, this.sharedBundleUrl);
-            }
-          } else {
-            addImport(fragmentUrl, dep);
+          const fragmentUrls = depsToEntrypoints.get(dep).map(
+              (f) => urlFromPath(this.config.root, f));
+          const bundleUrl =
+              this.bundleStrategy(dep, fragmentUrls, context) || fragmentUrl;
+          addImport(bundleUrl, dep);
+          // Every fragment imports the shell, so only shared bundles need to
+          // be tracked.
+          if (bundleUrl !== fragmentUrl && bundleUrl !== context.shellUrl) {
+            addImport(fragmentUrl, bundleUrl);
           }
         }
       }
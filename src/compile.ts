@@ -0,0 +1,252 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import * as path from 'path';
+import {ProjectConfig} from 'polymer-project-config';
+import {RawSourceMap, SourceMapConsumer, SourceMapGenerator} from 'source-map';
+import {Transform} from 'stream';
+import * as ts from 'typescript';
+import File = require('vinyl');
+
+import {SplitFileRegistry} from './polymer-project';
+import {SourceMapOptions, SourceMappedFile} from './source-maps';
+import {FileCB} from './streams';
+
+export type CompileTarget = 'es3' | 'es5' | 'es2015';
+
+const scriptTargets: {[target: string]: ts.ScriptTarget} = {
+  es3: ts.ScriptTarget.ES3,
+  es5: ts.ScriptTarget.ES5,
+  es2015: ts.ScriptTarget.ES2015,
+};
+
+export interface CompileOptions extends SourceMapOptions {
+  /**
+   * The version of JavaScript to compile to. Defaults to 'es5'.
+   */
+  target?: CompileTarget;
+
+  /**
+   * Returns whether the `.ts` or `.js` file at the given path should be
+   * compiled. Defaults to every `.ts` file, and every script split out of an
+   * HTML file in your `sources`. Other JavaScript, including the scripts of
+   * HTML files in `bower_components/`, is left alone.
+   */
+  include?: (filePath: string) => boolean;
+}
+
+export interface CompiledScript {
+  code: string;
+  sourceMap: RawSourceMap;
+}
+
+/**
+ * Compiles a TypeScript or JavaScript file to the given target, with a
+ * source map back to `contents`. Throws if the file has syntax errors, or
+ * uses generators or iteration (`for...of`, spread & array destructuring)
+ * when compiling to es5 or es3. Nothing is type checked.
+ */
+export function compileScript(
+    contents: string, fileName: string, target: CompileTarget = 'es5'):
+    CompiledScript {
+  const output = ts.transpileModule(contents, {
+    fileName: fileName,
+    reportDiagnostics: true,
+    compilerOptions: {
+      target: scriptTargets[target],
+      // Files without imports or exports compile to plain scripts, without
+      // the "use strict" that CommonJS output would add. (None can't be used,
+      // since each file is compiled on its own.)
+      module: ts.ModuleKind.ES2015,
+      sourceMap: true,
+    },
+  });
+  const errors = output.diagnostics.filter(
+      (d) => d.category === ts.DiagnosticCategory.Error);
+  if (errors.length > 0) {
+    throw new Error(
+        errors.map((d) => formatDiagnostic(d, fileName)).join('\n'));
+  }
+  if (target !== 'es2015') {
+    const unsupported = findUnsupportedSyntax(contents, fileName, target);
+    if (unsupported.length > 0) {
+      throw new Error(unsupported.join('\n'));
+    }
+  }
+  return {
+    // The source map is attached to the file instead.
+    code: output.outputText.replace(/\n?\/\/# sourceMappingURL=.*\s*$/, '\n'),
+    sourceMap: JSON.parse(output.sourceMapText),
+  };
+}
+
+/**
+ * Returns an error for each generator, and each use of iteration, in a file.
+ * TypeScript compiles iteration (`for...of`, spread & array destructuring) to
+ * es5 as if everything iterated over was an array, which silently breaks
+ * code that iterates over a `Set`, a `Map`, `arguments`, etc. It can't
+ * compile generators to es5 at all, and only reports syntax errors, so
+ * these are checked here instead.
+ */
+function findUnsupportedSyntax(
+    contents: string, fileName: string, target: CompileTarget): string[] {
+  const sourceFile =
+      ts.createSourceFile(fileName, contents, ts.ScriptTarget.ES2015, true);
+  const errors: string[] = [];
+  const visit = (node: ts.Node) => {
+    const description = describeUnsupportedSyntax(node);
+    if (description) {
+      const position =
+          sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+      errors.push(
+          `${fileName}(${position.line + 1},${position.character + 1}): ` +
+          `${description} can't be compiled to ${target}. Rewrite it, or ` +
+          `compile to es2015.`);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return errors;
+}
+
+// `SpreadElementExpression` was renamed to `SpreadElement` in TypeScript 2.1,
+// so the kind is looked up by either name.
+interface SpreadElementKinds {
+  SpreadElement?: ts.SyntaxKind;
+  SpreadElementExpression?: ts.SyntaxKind;
+}
+const spreadElementKinds = <SpreadElementKinds><{}>ts.SyntaxKind;
+const spreadElementKind = spreadElementKinds.SpreadElement != null ?
+    spreadElementKinds.SpreadElement :
+    spreadElementKinds.SpreadElementExpression;
+
+function describeUnsupportedSyntax(node: ts.Node): string {
+  switch (node.kind) {
+    case ts.SyntaxKind.FunctionDeclaration:
+    case ts.SyntaxKind.FunctionExpression:
+    case ts.SyntaxKind.MethodDeclaration:
+      if ((<ts.FunctionLikeDeclaration>node).asteriskToken) {
+        return 'A generator';
+      }
+      return null;
+    case ts.SyntaxKind.ForOfStatement:
+      return 'A for...of loop';
+    case spreadElementKind:
+      return 'A spread element';
+    case ts.SyntaxKind.ArrayBindingPattern:
+      return 'Array destructuring';
+    case ts.SyntaxKind.BinaryExpression:
+      // ex: `[a, b] = pair;`
+      if ((<ts.BinaryExpression>node).operatorToken.kind ===
+              ts.SyntaxKind.EqualsToken &&
+          (<ts.BinaryExpression>node).left.kind ===
+              ts.SyntaxKind.ArrayLiteralExpression) {
+        return 'Array destructuring';
+      }
+      return null;
+    default:
+      return null;
+  }
+}
+
+function formatDiagnostic(diagnostic: ts.Diagnostic, fileName: string): string {
+  const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+  if (!diagnostic.file) {
+    return `${fileName}: ${message}`;
+  }
+  const position =
+      diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+  return `${fileName}(${position.line + 1},${position.character + 1}): ` +
+      message;
+}
+
+/**
+ * A `Transform` stream that compiles TypeScript & ES2015 files to ES5 (or
+ * another target). Standalone `.ts` files are renamed to `.js`. Scripts
+ * split out of HTML files keep their names, so that they can be rejoined,
+ * and the rejoiner removes their `type` attribute (ex:
+ * `type="text/x-typescript"`), so that they run as plain JavaScript.
+ *
+ * Compilation errors, and ES2015 features that TypeScript can't compile to
+ * the target, fail the build. Types are not checked.
+ */
+export class Compiler extends Transform {
+  config: ProjectConfig;
+  target: CompileTarget;
+  include: (filePath: string) => boolean;
+  sourceMaps: boolean;
+
+  private _registry: SplitFileRegistry;
+
+  constructor(
+      config: ProjectConfig,
+      registry: SplitFileRegistry,
+      options: CompileOptions = {}) {
+    super({objectMode: true});
+    this.config = config;
+    this._registry = registry;
+    this.target = options.target || 'es5';
+    this.sourceMaps = options.sourceMaps !== false;
+    this.include = options.include || ((filePath) => {
+                     if (path.extname(filePath) === '.ts') {
+                       return true;
+                     }
+                     const parent = this._registry.getParentFile(filePath);
+                     return parent != null && this.config.isSource(parent.path);
+                   });
+  }
+
+  _transform(file: File, _encoding: string, callback: FileCB): void {
+    const filePath = path.normalize(file.path);
+    const extension = path.extname(filePath);
+    if (!file.isBuffer() || (extension !== '.ts' && extension !== '.js') ||
+        !this.include(filePath)) {
+      callback(null, file);
+      return;
+    }
+    let compiled: CompiledScript;
+    try {
+      compiled =
+          compileScript(file.contents.toString(), file.relative, this.target);
+    } catch (error) {
+      callback(error);
+      return;
+    }
+
+    const compiledFile: SourceMappedFile = file.clone();
+    compiledFile.contents = new Buffer(compiled.code);
+    if (this.sourceMaps) {
+      const sourceMap = SourceMapGenerator.fromSourceMap(
+          new SourceMapConsumer(compiled.sourceMap));
+      // Trace the mappings back through any earlier transform (ex: to where
+      // a split script was in its HTML file).
+      const fileSourceMap = (<SourceMappedFile>file).sourceMap;
+      if (fileSourceMap) {
+        sourceMap.applySourceMap(
+            new SourceMapConsumer(fileSourceMap), file.relative);
+      }
+      compiledFile.sourceMap = sourceMap.toJSON();
+    } else {
+      delete compiledFile.sourceMap;
+    }
+
+    const parentFile = this._registry.getParentFile(filePath);
+    if (parentFile) {
+      parentFile.compiledParts.add(filePath);
+    } else if (extension === '.ts') {
+      compiledFile.extname = '.js';
+    }
+    callback(null, compiledFile);
+  }
+}
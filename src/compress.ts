@@ -0,0 +1,263 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import * as path from 'path';
+import * as logging from 'plylog';
+import {ProjectConfig} from 'polymer-project-config';
+import {Transform} from 'stream';
+import * as zlib from 'zlib';
+import File = require('vinyl');
+
+import {addCompressedVariants, BundleManifest} from './bundle-manifest';
+import {urlFromPath} from './path-transformers';
+import {FileCB} from './streams';
+
+const logger = logging.getLogger('polymer-build.compress');
+
+export type CompressionEncoding = 'gzip' | 'brotli';
+
+const extensions: {[encoding: string]: string} = {
+  gzip: '.gz',
+  brotli: '.br',
+};
+
+type CompressFunction =
+    (contents: Buffer, callback: (err: Error, compressed: Buffer) => void) =>
+        void;
+
+// The parts of zlib that are used here. (Its typings predate brotli.)
+interface Zlib {
+  gzip: CompressFunction;
+  brotliCompress?: CompressFunction;
+}
+
+// The zlib function that compresses with each encoding, if there is one in
+// this version of node.
+const compressors: {[encoding: string]: CompressFunction} = {
+  gzip: (<Zlib>zlib).gzip,
+  brotli: (<Zlib>zlib).brotliCompress,
+};
+
+export interface CompressOptions {
+  /**
+   * The compressed variants to add for each file. Defaults to gzip, and to
+   * brotli as well when the version of node that runs the build supports it.
+   */
+  encodings?: CompressionEncoding[];
+
+  /**
+   * Files smaller than this many bytes aren't compressed. Defaults to 1024.
+   */
+  threshold?: number;
+
+  /**
+   * Returns whether the file at the given url should be compressed. Defaults
+   * to every HTML, JS, CSS & SVG file.
+   */
+  include?: (url: string) => boolean;
+
+  /**
+   * If set, the report is added to the stream as a JSON file at this path,
+   * relative to the project root.
+   */
+  reportPath?: string;
+
+  /**
+   * The path of the bundle manifest in the stream, relative to the project
+   * root. If set, the manifest is held until the end of the stream, and the
+   * compressed variants of each bundle are added to it. `project.compress()`
+   * defaults this to the bundler's `bundleManifestPath`.
+   */
+  bundleManifestPath?: string;
+}
+
+export interface CompressedVariant {
+  // The url of the compressed file
+  url: string;
+  // The url of the file that it is a compressed copy of
+  originalUrl: string;
+  encoding: CompressionEncoding;
+  size: number;
+  originalSize: number;
+}
+
+/**
+ * Returns whether zlib can compress with the given encoding in this version
+ * of node (brotli was added in node 11.7 & 10.16).
+ */
+export function isEncodingSupported(encoding: CompressionEncoding): boolean {
+  return typeof compressors[encoding] === 'function';
+}
+
+/**
+ * Returns the url of the file that the file at `url` would be a compressed
+ * variant of, based on its extension, or null if it wouldn't be one.
+ */
+export function getUncompressedUrl(url: string): string {
+  for (const encoding of Object.keys(extensions)) {
+    const extension = extensions[encoding];
+    if (url.endsWith(extension)) {
+      return url.substring(0, url.length - extension.length);
+    }
+  }
+  return null;
+}
+
+/**
+ * A `Transform` stream that adds precompressed variants of files (ex:
+ * `my-app.html.gz` & `my-app.html.br` next to `my-app.html`), for servers
+ * that serve them in place of the originals. Variants that wouldn't be
+ * smaller than the original file are left out. Files pass through it
+ * untouched.
+ *
+ * This should be the last step before files are written, since later steps
+ * would change the originals without changing the variants.
+ */
+export class Compressor extends Transform {
+  config: ProjectConfig;
+  encodings: CompressionEncoding[];
+  threshold: number;
+  include: (url: string) => boolean;
+  reportPath: string;
+  bundleManifestPath: string;
+
+  /**
+   * Resolves with every compressed variant that was added, once the stream
+   * has ended.
+   */
+  report: Promise<CompressedVariant[]>;
+  _resolveReport: (report: CompressedVariant[]) => void;
+
+  private _variants: CompressedVariant[] = [];
+  private _bundleManifestFile: File = null;
+
+  constructor(config: ProjectConfig, options: CompressOptions = {}) {
+    super({objectMode: true});
+    this.config = config;
+    this.encodings = options.encodings ||
+        (<CompressionEncoding[]>['gzip', 'brotli']).filter(isEncodingSupported);
+    this.threshold = (options.threshold == null) ? 1024 : options.threshold;
+    this.include =
+        options.include || ((url) => /\.(html|js|css|svg)$/.test(url));
+    this.reportPath = options.reportPath || null;
+    this.bundleManifestPath = options.bundleManifestPath || null;
+    this.report = new Promise((resolve, _reject) => {
+      this._resolveReport = resolve;
+    });
+  }
+
+  _transform(file: File, _encoding: string, callback: FileCB): void {
+    if (this.bundleManifestPath && file.isBuffer() &&
+        path.resolve(file.path) ===
+            path.resolve(this.config.root, this.bundleManifestPath)) {
+      this._bundleManifestFile = file;
+      callback();
+      return;
+    }
+    const url = urlFromPath(this.config.root, file.path);
+    if (!file.isBuffer() || !this.include(url) ||
+        (<Buffer>file.contents).length < this.threshold) {
+      callback(null, file);
+      return;
+    }
+    this.push(file);
+    Promise
+        .all(this.encodings.map(
+            (encoding) => this._compress(file, url, encoding)))
+        .then(() => callback())
+        .catch((error: any) => callback(error));
+  }
+
+  _flush(done: (error?: any) => void): void {
+    const report = this._variants;
+    const originalSize =
+        report.reduce((total, variant) => total + variant.originalSize, 0);
+    const size = report.reduce((total, variant) => total + variant.size, 0);
+    logger.info(
+        `added ${report.length} compressed files, ` +
+        `saving ${originalSize - size} bytes`);
+    this._resolveReport(report);
+    if (this._bundleManifestFile) {
+      const manifestFile = this._bundleManifestFile;
+      let manifest: BundleManifest;
+      try {
+        manifest = JSON.parse(manifestFile.contents.toString());
+      } catch (error) {
+        done(new Error(
+            `Could not read the bundle manifest at ${manifestFile.relative}: ` +
+            error.message));
+        return;
+      }
+      addCompressedVariants(manifest, report);
+      manifestFile.contents = new Buffer(JSON.stringify(manifest, null, 2));
+      this.push(manifestFile);
+    }
+    if (this.reportPath) {
+      const root = this.config.root;
+      this.push(new File({
+        cwd: root,
+        base: root,
+        path: path.resolve(root, this.reportPath),
+        contents: new Buffer(JSON.stringify(report, null, 2)),
+      }));
+    }
+    done();
+  }
+
+  /**
+   * Adds the variant of `file` for `encoding` to the stream, unless it isn't
+   * smaller than the original.
+   */
+  async _compress(file: File, url: string, encoding: CompressionEncoding):
+      Promise<void> {
+    if (!isEncodingSupported(encoding)) {
+      throw new Error(
+          `${encoding} compression isn't supported by this ` +
+          `version of node`);
+    }
+    const original = <Buffer>file.contents;
+    const compressed = await compress(original, encoding);
+    if (compressed.length >= original.length) {
+      logger.debug(`not adding ${encoding} variant of ${url}: not smaller`);
+      return;
+    }
+    const extension = extensions[encoding];
+    this._variants.push({
+      url: url + extension,
+      originalUrl: url,
+      encoding: encoding,
+      size: compressed.length,
+      originalSize: original.length,
+    });
+    this.push(new File({
+      cwd: file.cwd,
+      base: file.base,
+      path: file.path + extension,
+      contents: compressed,
+    }));
+  }
+}
+
+function compress(
+    contents: Buffer, encoding: CompressionEncoding): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    compressors[encoding](contents, (err, compressed) => {
+      if (err) {
+        reject(err);
+      } else {
+        resolve(compressed);
+      }
+    });
+  });
+}
@@ -0,0 +1,125 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {createHash} from 'crypto';
+import * as dom5 from 'dom5';
+import * as parse5 from 'parse5';
+import {RawSourceMap, SourceMapGenerator} from 'source-map';
+
+import {addSourceSpan, createSpanMatcher, SourceSpan} from './source-maps';
+
+const pred = dom5.predicates;
+
+const javaScriptTypes = new Set([
+  'application/javascript',
+  'text/javascript',
+  'text/ecmascript-6',
+]);
+
+const isInlineJavaScript = pred.AND(
+    pred.hasTagName('script'),
+    pred.NOT(pred.hasAttr('src')),
+    (node: parse5.ASTNode) => {
+      const type = dom5.getAttribute(node, 'type');
+      return !type || javaScriptTypes.has(type);
+    });
+
+/**
+ * The sha256 hashes of the inline scripts left in each bundle, keyed by
+ * bundle url. Each hash is a CSP source expression without its quotes (ex:
+ * `sha256-abc...=`).
+ */
+export interface CspHashes { [bundleUrl: string]: string[]; }
+
+export interface ExtractedScripts {
+  // The document, with a single `<script src>` in place of the extracted
+  // scripts.
+  html: string;
+  // The text of each extracted script, in document order.
+  scripts: string[];
+}
+
+/**
+ * Removes the inline scripts from an HTML document and adds a `<script>` at
+ * the end of its body that loads them from `scriptHref` instead, like
+ * crisper. Scripts inside of templates are left in place, since they only run
+ * once the template is stamped.
+ */
+export function extractInlineScripts(
+    contents: string, scriptHref: string): ExtractedScripts {
+  const doc = parse5.parse(contents);
+  const scriptTags = dom5.queryAll(doc, isInlineJavaScript);
+  if (scriptTags.length === 0) {
+    return {html: contents, scripts: []};
+  }
+  const scripts = scriptTags.map((tag) => dom5.getTextContent(tag));
+  scriptTags.forEach((tag) => dom5.remove(tag));
+  const scriptTag = dom5.constructors.element('script');
+  dom5.setAttribute(scriptTag, 'src', scriptHref);
+  const body = dom5.query(doc, pred.hasTagName('body'));
+  dom5.append(body, scriptTag);
+  return {html: parse5.serialize(doc), scripts: scripts};
+}
+
+/**
+ * Returns the contents of the script file that the given extracted scripts
+ * are written to. Each script is terminated so that it can't run on into the
+ * next one.
+ */
+export function joinScripts(scripts: string[]): string {
+  return scripts.map((script) => `${script}\n;\n`).join('');
+}
+
+/**
+ * Returns a source map for the script file made from `scripts` by
+ * `joinScripts()`. Each script is matched to one of the given spans, which
+ * are in the order that they were inlined (see `createSpanMatcher()`).
+ * Returns null if nothing could be mapped.
+ */
+export function createJoinedScriptsSourceMap(
+    fileName: string, scripts: string[], spans: SourceSpan[]): RawSourceMap {
+  const generator = new SourceMapGenerator({file: fileName});
+  const matchSpan = createSpanMatcher(spans);
+  let line = 1;
+  let mapped = false;
+  for (const script of scripts) {
+    const span = matchSpan(script);
+    if (span) {
+      addSourceSpan(generator, span, line, 0);
+      mapped = true;
+    }
+    // Each script is followed by a line with only a semicolon on it.
+    line += script.split('\n').length + 1;
+  }
+  return (mapped) ? generator.toJSON() : null;
+}
+
+/**
+ * Returns the hashes of the inline scripts that remain in an HTML document,
+ * including those inside of templates.
+ */
+export function getInlineScriptHashes(contents: string): string[] {
+  const doc = parse5.parse(contents);
+  const scriptTags = dom5.queryAll(
+      doc, isInlineJavaScript, [], dom5.childNodesIncludeTemplate);
+  const hashes: string[] = [];
+  for (const tag of scriptTags) {
+    const hash = 'sha256-' +
+        createHash('sha256').update(dom5.getTextContent(tag)).digest('base64');
+    if (!hashes.includes(hash)) {
+      hashes.push(hash);
+    }
+  }
+  return hashes;
+}
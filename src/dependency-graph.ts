@@ -0,0 +1,207 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import * as path from 'path';
+import {ProjectConfig} from 'polymer-project-config';
+
+import {DepsIndex, ImportEdge, isDependencyExternal, StreamAnalyzer} from './analyzer';
+import {Bundler} from './bundle';
+import {urlFromPath} from './path-transformers';
+import {ReportFile, ReportGenerator} from './report-generator';
+
+export interface DependencyGraphNode {
+  url: string;
+  fragment: boolean;
+  external: boolean;
+  // The bundles that the file ends up in. Only set for bundled builds.
+  bundles: string[];
+}
+
+/**
+ * Every file that the project's fragments depend on, and the imports between
+ * them.
+ */
+export interface DependencyGraph {
+  nodes: DependencyGraphNode[];
+  edges: ImportEdge[];
+}
+
+/**
+ * Returns the import graph of the analyzed fragments. If `bundles` (as
+ * returned by `Bundler#getBundles()`) is given, each node lists the bundles
+ * that it is inlined into.
+ */
+export function createDependencyGraph(
+    config: ProjectConfig,
+    depsIndex: DepsIndex,
+    bundles?: Map<string, string[]>): DependencyGraph {
+  const nodes = new Map<string, DependencyGraphNode>();
+  const edges = new Map<string, ImportEdge>();
+  const addNode = (url: string) => {
+    if (!nodes.has(url)) {
+      nodes.set(url, {
+        url: url,
+        fragment: config.isFragment(path.resolve(config.root, url)),
+        external: isDependencyExternal(url),
+        bundles: [],
+      });
+    }
+    return nodes.get(url);
+  };
+
+  for (const fragment of config.allFragments) {
+    addNode(urlFromPath(config.root, fragment));
+    const deps = depsIndex.fragmentToFullDeps.get(fragment);
+    for (const edge of (deps && deps.edges) || []) {
+      addNode(edge.from);
+      addNode(edge.to);
+      edges.set(`${edge.from} ${edge.type} ${edge.to}`, edge);
+    }
+  }
+
+  if (bundles) {
+    // Each fragment is bundled into itself. Bundles only list their html
+    // imports; scripts & styles are inlined into the same bundles as the
+    // documents that reference them.
+    for (const node of nodes.values()) {
+      if (node.fragment) {
+        node.bundles.push(node.url);
+      }
+    }
+    for (const [bundleUrl, urls] of bundles) {
+      for (const url of [bundleUrl].concat(urls)) {
+        const node = nodes.get(url);
+        if (node && !node.bundles.includes(bundleUrl)) {
+          node.bundles.push(bundleUrl);
+        }
+      }
+    }
+    for (const edge of edges.values()) {
+      const node = nodes.get(edge.to);
+      if (edge.type === 'html-import' || node.external) {
+        continue;
+      }
+      for (const bundleUrl of nodes.get(edge.from).bundles) {
+        if (!node.bundles.includes(bundleUrl)) {
+          node.bundles.push(bundleUrl);
+        }
+      }
+    }
+  }
+
+  return {
+    nodes: Array.from(nodes.values()),
+    edges: Array.from(edges.values()),
+  };
+}
+
+/**
+ * Returns `graph` in the Graphviz DOT language. Fragments are drawn as boxes
+ * and external files with dashed outlines. Each node is labelled with the
+ * bundles that it ends up in.
+ */
+export function serializeGraphAsDot(graph: DependencyGraph): string {
+  const lines = ['digraph dependencies {'];
+  for (const node of graph.nodes) {
+    const attributes = [`label=${quote(getNodeLabel(node))}`];
+    if (node.fragment) {
+      attributes.push('shape=box');
+    }
+    if (node.external) {
+      attributes.push('style=dashed');
+    }
+    lines.push(`  ${quote(node.url)} [${attributes.join(', ')}];`);
+  }
+  for (const edge of graph.edges) {
+    lines.push(
+        `  ${quote(edge.from)} -> ${quote(edge.to)} ` +
+        `[label=${quote(edge.type)}];`);
+  }
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
+
+function getNodeLabel(node: DependencyGraphNode): string {
+  if (node.bundles.length === 0) {
+    return node.url;
+  }
+  return `${node.url}\nbundles: ${node.bundles.join(', ')}`;
+}
+
+function quote(id: string): string {
+  return JSON.stringify(id);
+}
+
+export interface DependencyGraphOptions {
+  /**
+   * 'json' (the default) or 'dot'.
+   */
+  format?: 'json'|'dot';
+
+  /**
+   * The path of the graph file, relative to the project root. Defaults to
+   * `dependency-graph.json` or `dependency-graph.dot`.
+   */
+  path?: string;
+
+  /**
+   * Set if `project.bundler` is used, so that each node lists the bundles
+   * that it ends up in.
+   */
+  bundled?: boolean;
+}
+
+/**
+ * A `Transform` stream that passes files through untouched, and then adds a
+ * file with the import graph of the project.
+ *
+ * (NOTE: The analyzer stream must be in the pipeline somewhere before this,
+ * as must the bundler if the `bundled` option is set.)
+ */
+export class DependencyGraphGenerator extends ReportGenerator<DependencyGraph> {
+  bundler: Bundler;
+  format: 'json'|'dot';
+  graphPath: string;
+
+  /**
+   * Resolves with the dependency graph once it has been generated. (The same
+   * promise as `report`.)
+   */
+  graph: Promise<DependencyGraph>;
+
+  constructor(
+      analyzer: StreamAnalyzer,
+      bundler: Bundler,
+      options: DependencyGraphOptions = {}) {
+    super(analyzer);
+    this.bundler = (options.bundled) ? bundler : null;
+    this.format = options.format || 'json';
+    this.graphPath = options.path || `dependency-graph.${this.format}`;
+    this.graph = this.report;
+  }
+
+  async _createReport(): Promise<DependencyGraph> {
+    const depsIndex = await this.analyzer.analyzeDependencies;
+    const bundles = (this.bundler) ? await this.bundler.getBundles() : null;
+    return createDependencyGraph(this.analyzer.config, depsIndex, bundles);
+  }
+
+  _getReportFile(graph: DependencyGraph): ReportFile {
+    return {
+      path: this.graphPath,
+      contents: (this.format === 'dot') ? serializeGraphAsDot(graph) :
+                                          JSON.stringify(graph, null, 2),
+    };
+  }
+}
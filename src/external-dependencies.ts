@@ -0,0 +1,162 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import * as path from 'path';
+import {Transform} from 'stream';
+import {parse as parseUrl} from 'url';
+import File = require('vinyl');
+
+import {DepsIndex, ImportType, isDependencyExternal, StreamAnalyzer} from './analyzer';
+import {rewriteHtmlReferences} from './html-references';
+import {urlFromPath} from './path-transformers';
+import {FileCB} from './streams';
+
+/**
+ * What to do with external dependencies (ex: `https://cdn.example.com/x.js`
+ * or `//cdn.example.com/x.js`):
+ *
+ *   - 'allow': leave the references to them in place (the default).
+ *   - 'error': fail the build.
+ *   - 'vendor': copy them into the build from a local mirror directory, and
+ *     reference the copies instead. The build fails if any of them aren't in
+ *     the mirror.
+ */
+export type ExternalDependencyPolicy = 'allow' | 'error' | 'vendor';
+
+export interface ExternalDependency {
+  // The external url
+  url: string;
+  // The url of the document that references it
+  from: string;
+  type: ImportType;
+  // The url of the local copy, if it was vendored
+  vendoredUrl?: string;
+}
+
+/**
+ * The external dependencies of each fragment, including those of the files
+ * that it depends on, keyed by fragment url.
+ */
+export interface ExternalDependencyReport {
+  [fragmentUrl: string]: ExternalDependency[];
+}
+
+/**
+ * Returns the root-relative url that the external file at `url` is mirrored
+ * at: `<mirrorDir>/<host>/<path>`.
+ */
+export function getMirrorUrl(mirrorDir: string, url: string): string {
+  const parsedUrl = parseUrl(url.startsWith('//') ? `http:${url}` : url);
+  return path.posix.join(
+      mirrorDir.replace(/\\/g, '/'), parsedUrl.host, parsedUrl.pathname);
+}
+
+/**
+ * Returns the contents of the HTML document at `url` with each reference to
+ * an external file replaced by a reference to the url returned for it by
+ * `getVendoredUrl`. References for which it returns null are left as they
+ * are.
+ */
+export function vendorExternalReferences(
+    contents: string,
+    url: string,
+    getVendoredUrl: (externalUrl: string) => string): string {
+  return rewriteHtmlReferences(
+      contents,
+      url,
+      (reference) => isDependencyExternal(reference.url) ?
+          getVendoredUrl(reference.url) :
+          null,
+      '/',
+      true);
+}
+
+/**
+ * Returns the external dependencies of every fragment. `vendoredUrls` maps
+ * the urls of vendored copies back to the external urls they were copied
+ * from.
+ */
+export function createExternalDependencyReport(
+    analyzer: StreamAnalyzer,
+    depsIndex: DepsIndex,
+    vendoredUrls: Map<string, string> = new Map()): ExternalDependencyReport {
+  const config = analyzer.config;
+  const report: ExternalDependencyReport = {};
+  for (const fragment of config.allFragments) {
+    const deps = depsIndex.fragmentToFullDeps.get(fragment);
+    const externalDeps: ExternalDependency[] = [];
+    for (const edge of (deps && deps.edges) || []) {
+      if (isDependencyExternal(edge.to)) {
+        externalDeps.push({url: edge.to, from: edge.from, type: edge.type});
+      } else if (vendoredUrls.has(edge.to)) {
+        externalDeps.push({
+          url: vendoredUrls.get(edge.to),
+          from: edge.from,
+          type: edge.type,
+          vendoredUrl: edge.to,
+        });
+      }
+    }
+    report[urlFromPath(config.root, fragment)] = externalDeps;
+  }
+  return report;
+}
+
+/**
+ * A `Transform` stream that passes files through untouched, and then adds a
+ * report of the external dependencies of every fragment.
+ *
+ * (NOTE: The analyzer stream must be in the pipeline somewhere before this.)
+ */
+export class ExternalDependencyReporter extends Transform {
+  analyzer: StreamAnalyzer;
+  reportPath: string;
+
+  /**
+   * Resolves with the report once it has been generated.
+   */
+  report: Promise<ExternalDependencyReport>;
+  _resolveReport: (report: ExternalDependencyReport) => void;
+
+  constructor(analyzer: StreamAnalyzer, reportPath?: string) {
+    super({objectMode: true});
+    this.analyzer = analyzer;
+    this.reportPath = reportPath || 'external-dependencies.json';
+    this.report = new Promise((resolve, _reject) => {
+      this._resolveReport = resolve;
+    });
+  }
+
+  _transform(file: File, _encoding: string, callback: FileCB): void {
+    callback(null, file);
+  }
+
+  _flush(done: (error?: any) => void): void {
+    const root = this.analyzer.config.root;
+    this.analyzer.analyzeDependencies
+        .then((depsIndex) => {
+          const report = createExternalDependencyReport(
+              this.analyzer, depsIndex, this.analyzer.vendoredUrls);
+          this.push(new File({
+            cwd: root,
+            base: root,
+            path: path.resolve(root, this.reportPath),
+            contents: new Buffer(JSON.stringify(report, null, 2)),
+          }));
+          this._resolveReport(report);
+          done();
+        })
+        .catch((error: any) => done(error));
+  }
+}
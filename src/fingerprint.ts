@@ -0,0 +1,195 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {createHash} from 'crypto';
+import * as path from 'path';
+import {posix as posixPath} from 'path';
+import * as logging from 'plylog';
+import {ProjectConfig} from 'polymer-project-config';
+import {Transform} from 'stream';
+import File = require('vinyl');
+
+import {getHtmlReferences, rewriteHtmlReferences, sortByReferences} from './html-references';
+import {pathFromUrl, urlFromPath} from './path-transformers';
+import {FileCB} from './streams';
+
+const logger = logging.getLogger('polymer-build.fingerprint');
+
+/**
+ * Maps the original url of each fingerprinted file to its new url.
+ */
+export interface FingerprintManifest { [url: string]: string; }
+
+export interface FingerprintOptions {
+  /**
+   * The number of hex digits of each file's content hash to add to its name.
+   * Defaults to 8.
+   */
+  hashLength?: number;
+
+  /**
+   * Where to write the JSON manifest that maps original urls to
+   * fingerprinted urls, relative to the project root. Defaults to
+   * 'fingerprint-manifest.json'.
+   */
+  manifestPath?: string;
+
+  /**
+   * Returns whether the file at the given url should be fingerprinted.
+   * Defaults to every HTML, JS & CSS file except the entrypoint and
+   * `service-worker.js`, whose urls need to stay the same.
+   */
+  include?: (url: string) => boolean;
+
+  /**
+   * The url path that the app is served under, for resolving absolute urls.
+   * `project.fingerprint()` sets this from the project's `basePath` option.
+   */
+  basePath?: string;
+}
+
+/**
+ * A `Transform` stream that adds a hash of each file's contents to its name
+ * (ex: `my-view1.html` becomes `my-view1.3f9a2c1d.html`), and updates every
+ * HTML import, script & stylesheet reference to the new names. Files are
+ * hashed after their references have been updated, so a change to any file
+ * also changes the names of the files that reference it.
+ *
+ * All files are held until the end of the stream, since a file can't be
+ * renamed until everything that it references has been.
+ */
+export class Fingerprinter extends Transform {
+  config: ProjectConfig;
+  hashLength: number;
+  manifestPath: string;
+  include: (url: string) => boolean;
+  basePath: string;
+
+  /**
+   * Resolves with the mapping from original to fingerprinted urls, once every
+   * file has been renamed.
+   */
+  manifest: Promise<FingerprintManifest>;
+  _resolveManifest: (manifest: FingerprintManifest) => void;
+  _rejectManifest: (error: any) => void;
+
+  private _files = new Map<string, File>();
+
+  constructor(config: ProjectConfig, options: FingerprintOptions = {}) {
+    super({objectMode: true});
+    this.config = config;
+    this.hashLength = options.hashLength || 8;
+    this.manifestPath = options.manifestPath || 'fingerprint-manifest.json';
+    this.basePath = options.basePath || '/';
+    const fixedUrls = new Set(
+        [urlFromPath(config.root, config.entrypoint), 'service-worker.js']);
+    this.include = options.include ||
+        ((url) => !fixedUrls.has(url) && /\.(html|js|css)$/.test(url));
+    this.manifest = new Promise((resolve, reject) => {
+      this._resolveManifest = resolve;
+      this._rejectManifest = reject;
+    });
+    // Failures are reported by the stream itself.
+    this.manifest.catch(() => {});
+  }
+
+  _transform(file: File, _encoding: string, callback: FileCB): void {
+    if (!file.isBuffer()) {
+      callback(null, file);
+      return;
+    }
+    this._files.set(urlFromPath(this.config.root, file.path), file);
+    callback();
+  }
+
+  _flush(done: (error?: any) => void): void {
+    let manifest: FingerprintManifest;
+    try {
+      manifest = this._fingerprint();
+    } catch (err) {
+      this._rejectManifest(err);
+      done(err);
+      return;
+    }
+    for (const file of this._files.values()) {
+      this.push(file);
+    }
+    this.push(new File({
+      cwd: this.config.root,
+      base: this.config.root,
+      path: path.resolve(this.config.root, this.manifestPath),
+      contents: new Buffer(JSON.stringify(manifest, null, 2)),
+    }));
+    this._resolveManifest(manifest);
+    done();
+  }
+
+  /**
+   * Rewrites and renames every file, starting with the files that don't
+   * reference anything, and returns the resulting manifest.
+   */
+  _fingerprint(): FingerprintManifest {
+    const manifest: FingerprintManifest = {};
+    const references = new Map<string, string[]>();
+    for (const [url, file] of this._files) {
+      references.set(
+          url,
+          isHtml(url) ?
+              getHtmlReferences(file.contents.toString(), url, this.basePath)
+                  .map((reference) => reference.url) :
+              []);
+    }
+
+    const components = sortByReferences(
+        Array.from(this._files.keys()), (url) => references.get(url));
+    for (const component of components) {
+      // Files that reference each other can't include each other's hashes,
+      // so they keep their original names.
+      const cyclic = component.length > 1 ||
+          references.get(component[0]).includes(component[0]);
+      if (cyclic) {
+        logger.warn(
+            `not fingerprinting files with circular references: ` +
+            component.join(', '));
+      }
+      for (const url of component) {
+        const file = this._files.get(url);
+        if (isHtml(url)) {
+          file.contents = new Buffer(rewriteHtmlReferences(
+              file.contents.toString(),
+              url,
+              (reference) => manifest[reference.url] || null,
+              this.basePath));
+        }
+        if (cyclic || !this.include(url)) {
+          continue;
+        }
+        const hash = createHash('sha1')
+                         .update(<Buffer>file.contents)
+                         .digest('hex')
+                         .substring(0, this.hashLength);
+        const extension = posixPath.extname(url);
+        const fingerprintedUrl = `${url.substring(
+            0, url.length - extension.length)}.${hash}${extension}`;
+        manifest[url] = fingerprintedUrl;
+        file.path = pathFromUrl(this.config.root, fingerprintedUrl);
+      }
+    }
+    return manifest;
+  }
+}
+
+function isHtml(url: string): boolean {
+  return url.endsWith('.html');
+}
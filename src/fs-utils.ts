@@ -0,0 +1,32 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Creates a directory, along with any of its parents that don't exist yet.
+ */
+export function mkdirpSync(dir: string): void {
+  try {
+    fs.mkdirSync(dir);
+  } catch (err) {
+    if (err.code === 'ENOENT') {
+      mkdirpSync(path.dirname(dir));
+      fs.mkdirSync(dir);
+    } else if (err.code !== 'EEXIST') {
+      throw err;
+    }
+  }
+}
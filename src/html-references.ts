@@ -0,0 +1,283 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import * as dom5 from 'dom5';
+import * as parse5 from 'parse5';
+import {posix as posixPath} from 'path';
+
+import {isDependencyExternal} from './analyzer';
+import {getPublicUrl, stripBasePath} from './base-path';
+
+const pred = dom5.predicates;
+
+const isHtmlImport = pred.AND(
+    pred.hasTagName('link'),
+    pred.hasAttrValue('rel', 'import'),
+    pred.hasAttr('href'),
+    pred.NOT(pred.hasAttrValue('type', 'css')));
+
+const isExternalScript =
+    pred.AND(pred.hasTagName('script'), pred.hasAttr('src'));
+
+const isExternalStyle = pred.AND(
+    pred.hasTagName('link'),
+    pred.hasAttr('href'),
+    pred.OR(
+        pred.hasAttrValue('rel', 'stylesheet'),
+        pred.AND(
+            pred.hasAttrValue('rel', 'import'),
+            pred.hasAttrValue('type', 'css'))));
+
+export type HtmlReferenceType = 'import' | 'script' | 'style';
+
+/**
+ * A reference from an HTML document to another file in the same project.
+ */
+export interface HtmlReference {
+  type: HtmlReferenceType;
+  element: parse5.ASTNode;
+  // The attribute that holds the reference: `href` or `src`
+  attribute: string;
+  // The reference as written in the document
+  href: string;
+  // The root-relative url of the referenced file
+  url: string;
+}
+
+/**
+ * Returns every HTML import, external script & stylesheet that the HTML
+ * document at `url` references. External urls are ignored unless
+ * `includeExternal` is set, in which case their `url` is the href itself.
+ * Absolute urls are resolved relative to `basePath`, the url path that the
+ * app is served under.
+ */
+export function getHtmlReferences(
+    contents: string, url: string, basePath = '/', includeExternal = false):
+    HtmlReference[] {
+  const doc = parse5.parse(contents, {locationInfo: true});
+  return queryHtmlReferences(doc, url, basePath, includeExternal);
+}
+
+/**
+ * Like `getHtmlReferences()`, but for a document that has already been
+ * parsed.
+ */
+export function queryHtmlReferences(
+    doc: parse5.ASTNode, url: string, basePath = '/', includeExternal = false):
+    HtmlReference[] {
+  const references: HtmlReference[] = [];
+  const elements = dom5.queryAll(
+      doc,
+      pred.OR(isHtmlImport, isExternalScript, isExternalStyle),
+      [],
+      dom5.childNodesIncludeTemplate);
+  for (const element of elements) {
+    const type: HtmlReferenceType = isExternalScript(element) ?
+        'script' :
+        isExternalStyle(element) ? 'style' : 'import';
+    const attribute = (type === 'script') ? 'src' : 'href';
+    const href = dom5.getAttribute(element, attribute);
+    if (!href || href.startsWith('data:')) {
+      continue;
+    }
+    const external = isDependencyExternal(href);
+    if (external && !includeExternal) {
+      continue;
+    }
+    references.push({
+      type: type,
+      element: element,
+      attribute: attribute,
+      href: href,
+      url: (external) ? href : resolveHref(url, href, basePath),
+    });
+  }
+  return references;
+}
+
+/**
+ * Returns the root-relative url that `href` refers to from the document at
+ * `url`, without any query string or fragment.
+ */
+export function resolveHref(url: string, href: string, basePath = '/'): string {
+  const hrefPath = href.split(/[?#]/)[0];
+  return hrefPath.startsWith('/') ?
+      stripBasePath(basePath, hrefPath).replace(/^\//, '') :
+      posixPath.join(posixPath.dirname(url), hrefPath);
+}
+
+/**
+ * Returns the contents of the HTML document at `url`, with each of its
+ * references updated to the url returned for it by `rewrite`. References for
+ * which `rewrite` returns null are left as they are. Only the rewritten
+ * attributes are changed; the rest of the document keeps its formatting.
+ * External references are only given to `rewrite` if `includeExternal` is
+ * set.
+ */
+export function rewriteHtmlReferences(
+    contents: string,
+    url: string,
+    rewrite: (reference: HtmlReference) => string,
+    basePath = '/',
+    includeExternal = false): string {
+  const edits: Edit[] = [];
+  for (const reference of getHtmlReferences(
+           contents, url, basePath, includeExternal)) {
+    const newUrl = rewrite(reference);
+    // Void elements (like <link>) are located by their start tag alone.
+    const location = <parse5.ElementLocationInfo&parse5.StartTagLocationInfo>(
+        reference.element.__location);
+    const startTag = location && (location.startTag || location);
+    const attributeLocation =
+        startTag && startTag.attrs && startTag.attrs[reference.attribute];
+    if (newUrl == null || newUrl === reference.url || !attributeLocation) {
+      continue;
+    }
+    const suffix =
+        reference.href.substring(reference.href.split(/[?#]/)[0].length);
+    const isAbsolute =
+        reference.href.startsWith('/') && !isDependencyExternal(reference.href);
+    const newHref = isAbsolute ?
+        getPublicUrl(basePath, newUrl) :
+        posixPath.relative(posixPath.dirname(url), newUrl);
+    edits.push({
+      start: attributeLocation.startOffset,
+      end: attributeLocation.endOffset,
+      text: `${reference.attribute}="${newHref}${suffix}"`,
+    });
+  }
+  return applyEdits(contents, edits);
+}
+
+/**
+ * Returns the contents of the HTML document at `url`, with the attributes
+ * returned by `getAttributes` set on the element of each of its references
+ * (ex: `{integrity: '...'}`). Attributes that the element already has are
+ * replaced, and the rest are added to the end of its start tag. References
+ * for which `getAttributes` returns null are left as they are. External
+ * references are only given to `getAttributes` if `includeExternal` is set.
+ */
+export function setHtmlReferenceAttributes(
+    contents: string,
+    url: string,
+    getAttributes: (reference: HtmlReference) => {
+      [name: string]: string
+    },
+    basePath = '/',
+    includeExternal = false): string {
+  const edits: Edit[] = [];
+  for (const reference of getHtmlReferences(
+           contents, url, basePath, includeExternal)) {
+    const attributes = getAttributes(reference);
+    const location = <parse5.ElementLocationInfo&parse5.StartTagLocationInfo>(
+        reference.element.__location);
+    const startTag = location && (location.startTag || location);
+    if (attributes == null || !startTag) {
+      continue;
+    }
+    let addedText = '';
+    for (const name of Object.keys(attributes)) {
+      const text = `${name}="${attributes[name]}"`;
+      const attributeLocation = startTag.attrs && startTag.attrs[name];
+      if (attributeLocation) {
+        edits.push({
+          start: attributeLocation.startOffset,
+          end: attributeLocation.endOffset,
+          text: text,
+        });
+      } else {
+        addedText += ` ${text}`;
+      }
+    }
+    if (addedText) {
+      // Insert before the `>` (or `/>`) that closes the start tag.
+      let end = startTag.endOffset - 1;
+      if (contents[end - 1] === '/') {
+        end--;
+      }
+      edits.push({start: end, end: end, text: addedText});
+    }
+  }
+  return applyEdits(contents, edits);
+}
+
+interface Edit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+function applyEdits(contents: string, edits: Edit[]): string {
+  // Apply edits from the end of the document so that offsets stay valid.
+  edits.sort((a, b) => b.start - a.start);
+  for (const edit of edits) {
+    contents = contents.substring(0, edit.start) + edit.text +
+        contents.substring(edit.end);
+  }
+  return contents;
+}
+
+/**
+ * Groups the given urls into strongly connected components of the graph
+ * described by `getReferences`, ordered so that every component comes after
+ * the components that it references. Urls that reference each other
+ * (directly or indirectly) end up in the same component. References to urls
+ * that aren't in `urls` are ignored.
+ */
+export function sortByReferences(
+    urls: string[], getReferences: (url: string) => string[]): string[][] {
+  // Tarjan's algorithm, which emits each component after the components
+  // that it references.
+  const known = new Set(urls);
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+
+  const visit = (url: string) => {
+    index.set(url, index.size);
+    lowLink.set(url, index.get(url));
+    stack.push(url);
+    onStack.add(url);
+    for (const reference of getReferences(url)) {
+      if (!known.has(reference)) {
+        continue;
+      }
+      if (!index.has(reference)) {
+        visit(reference);
+        lowLink.set(url, Math.min(lowLink.get(url), lowLink.get(reference)));
+      } else if (onStack.has(reference)) {
+        lowLink.set(url, Math.min(lowLink.get(url), index.get(reference)));
+      }
+    }
+    if (lowLink.get(url) === index.get(url)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop();
+        onStack.delete(member);
+        component.unshift(member);
+      } while (member !== url);
+      components.push(component);
+    }
+  };
+
+  for (const url of urls) {
+    if (!index.has(url)) {
+      visit(url);
+    }
+  }
+  return components;
+}
@@ -0,0 +1,252 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import * as dom5 from 'dom5';
+import * as escodegen from 'escodegen';
+import * as espree from 'espree';
+import * as parse5 from 'parse5';
+import * as logging from 'plylog';
+import {Analyzer} from 'polymer-analyzer';
+import {UrlLoader} from 'polymer-analyzer/lib/url-loader/url-loader';
+import * as shady from 'shady-css-parser';
+import {Transform} from 'stream';
+import File = require('vinyl');
+
+import {SourceMappedFile} from './source-maps';
+import {FileCB} from './streams';
+
+const logger = logging.getLogger('polymer-build.minify');
+
+// Elements whose text is rendered, or run, exactly as written.
+const whitespaceSensitiveElements =
+    new Set(['pre', 'textarea', 'script', 'style']);
+
+export interface MinifyOptions {
+  /**
+   * Set any of these to false to leave files of that type as they are.
+   */
+  html?: boolean;
+  js?: boolean;
+  css?: boolean;
+}
+
+function isLicenseComment(text: string): boolean {
+  return text.includes('@license');
+}
+
+/**
+ * Returns an HTML document with its comments removed (other than license
+ * comments) and runs of whitespace in its text collapsed to a single space.
+ * Elements, attributes (including binding expressions) and the contents of
+ * templates are otherwise left alone, as is the text of `<pre>`,
+ * `<textarea>`, `<script>` & `<style>` elements. Inline scripts & styles are
+ * not minified; split them out with `project.splitHtml()` first.
+ */
+export function minifyHtml(contents: string): string {
+  const doc = parse5.parse(contents);
+  minifyHtmlNode(doc, false);
+  return parse5.serialize(doc);
+}
+
+function minifyHtmlNode(
+    node: parse5.ASTNode, preserveWhitespace: boolean): void {
+  // Copied, since comments are removed from it along the way.
+  const children = Array.from(dom5.childNodesIncludeTemplate(node) || []);
+  for (const child of children) {
+    if (dom5.isCommentNode(child)) {
+      if (!isLicenseComment(child.data)) {
+        dom5.remove(child);
+      }
+    } else if (dom5.isTextNode(child)) {
+      if (!preserveWhitespace) {
+        child.value = child.value.replace(/\s+/g, ' ');
+      }
+    } else {
+      minifyHtmlNode(
+          child,
+          preserveWhitespace ||
+              whitespaceSensitiveElements.has(child.nodeName));
+    }
+  }
+}
+
+/**
+ * Returns a script with its comments (other than license comments, which are
+ * moved to the top) and unneeded whitespace removed. Names are left as they
+ * are, so that Polymer can still find the properties & methods that
+ * templates bind to.
+ */
+export function minifyJavaScript(contents: string): string {
+  const program = espree.parse(
+      contents, {ecmaVersion: 7, sourceType: 'script', comment: true});
+  const licenses = program.comments.filter((c) => isLicenseComment(c.value))
+                       .map((c) => `/*${c.value}*/\n`);
+  const code = escodegen.generate(program, {format: {compact: true}});
+  return licenses.join('') + code;
+}
+
+/**
+ * Returns a stylesheet with its comments (other than license comments) and
+ * unneeded whitespace removed. Custom properties, mixins & `@apply` are kept
+ * as they are.
+ */
+export function minifyCss(contents: string): string {
+  const stylesheet = new shady.Parser().parse(contents);
+  removeCssComments(stylesheet.rules);
+  return new shady.Stringifier().stringify(stylesheet);
+}
+
+function removeCssComments(rules: shady.Rule[]): void {
+  for (let i = rules.length - 1; i >= 0; i--) {
+    const rule = rules[i];
+    if (rule.type === 'comment' && !isLicenseComment(rule.value)) {
+      rules.splice(i, 1);
+    } else if (rule.type === 'ruleset') {
+      removeCssComments(rule.rulelist.rules);
+    } else if (rule.type === 'atRule' && rule.rulelist) {
+      removeCssComments(rule.rulelist.rules);
+    } else if (rule.type === 'declaration' && rule.value.type === 'rulelist') {
+      removeCssComments(rule.value.rules);
+    }
+  }
+}
+
+type FileType = 'html'|'js'|'css';
+
+function getFileType(file: File): FileType {
+  switch (file.extname) {
+    case '.html':
+      return 'html';
+    case '.js':
+      return 'js';
+    case '.css':
+      return 'css';
+    default:
+      return null;
+  }
+}
+
+function minifyFile(fileType: FileType, contents: string): string {
+  switch (fileType) {
+    case 'html':
+      return minifyHtml(contents);
+    case 'js':
+      return minifyJavaScript(contents);
+    case 'css':
+      return minifyCss(contents);
+  }
+}
+
+/**
+ * Lets the analyzer load nothing but the file being checked, whose contents
+ * are always given to it, so that the file's imports aren't followed.
+ */
+class SingleFileLoader implements UrlLoader {
+  url: string;
+
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  canLoad(url: string): boolean {
+    return url === this.url;
+  }
+
+  load(url: string): Promise<string> {
+    return Promise.reject(new Error(`${url} should have been given`));
+  }
+}
+
+/**
+ * Runs the analyzer over a file's original & minified contents, and rejects
+ * if it can't analyze the minified contents or reports a warning for them
+ * that it didn't report for the original.
+ */
+export async function checkMinified(
+    url: string, original: string, minified: string): Promise<void> {
+  const analyzer = new Analyzer({urlLoader: new SingleFileLoader(url)});
+  const originalDocument = await analyzer.analyze(url, original);
+  // Counted by code, since the same warning moves around when minified.
+  const originalWarnings = new Map<string, number>();
+  for (const warning of originalDocument.getWarnings(true)) {
+    originalWarnings.set(
+        warning.code, (originalWarnings.get(warning.code) || 0) + 1);
+  }
+  const minifiedDocument = await analyzer.analyze(url, minified);
+  for (const warning of minifiedDocument.getWarnings(true)) {
+    const count = originalWarnings.get(warning.code) || 0;
+    if (count === 0) {
+      throw new Error(`the analyzer reports a new warning: ${warning.message}`);
+    }
+    originalWarnings.set(warning.code, count - 1);
+  }
+}
+
+/**
+ * A `Transform` stream that minifies HTML, JS & CSS files. To minify inline
+ * scripts & styles as well, use it between `project.splitHtml()` and
+ * `project.rejoinHtml()`.
+ *
+ * Each minified file is run through the analyzer. Files that can't be
+ * minified, or whose minified contents the analyzer can't analyze or reports
+ * new warnings for, are passed through unchanged with a warning.
+ */
+export class Minifier extends Transform {
+  options: MinifyOptions;
+
+  constructor(options: MinifyOptions = {}) {
+    super({objectMode: true});
+    this.options = options;
+  }
+
+  _transform(file: File, _encoding: string, callback: FileCB): void {
+    const fileType = getFileType(file);
+    if (!file.isBuffer() || fileType == null || !this._isEnabled(fileType)) {
+      callback(null, file);
+      return;
+    }
+    this._minify(file, fileType)
+        .then(
+            (minified) => {
+              const minifiedFile: SourceMappedFile = file.clone();
+              minifiedFile.contents = new Buffer(minified);
+              // Minifying moves everything around, so a source map would no
+              // longer match the file.
+              delete minifiedFile.sourceMap;
+              callback(null, minifiedFile);
+            },
+            (error: any) => {
+              logger.warn(`not minifying ${file.relative}: ${error.message}`);
+              callback(null, file);
+            });
+  }
+
+  private _isEnabled(fileType: FileType): boolean {
+    switch (fileType) {
+      case 'html':
+        return this.options.html !== false;
+      case 'js':
+        return this.options.js !== false;
+      case 'css':
+        return this.options.css !== false;
+    }
+  }
+
+  private async _minify(file: File, fileType: FileType): Promise<string> {
+    const contents = file.contents.toString();
+    const minified = minifyFile(fileType, contents);
+    await checkMinified(file.relative, contents, minified);
+    return minified;
+  }
+}
@@ -1,8 +1,24 @@
 export {SWConfig} from 'sw-precache';
 // Export types for upstream TypeScript projects
-export {DepsIndex, StreamAnalyzer} from './analyzer';
-export {Bundler} from './bundle';
+export {BuildAnalyzer, DepsIndex, DocumentDeps, ImportEdge, ImportType, StreamAnalyzer, StreamAnalyzerOptions} from './analyzer';
+export {Bundler, BundlerOptions} from './bundle';
+export {BundledFileInfo, BundleInfo, BundleManifest} from './bundle-manifest';
+export {BundleStrategy, BundleStrategyContext} from './bundle-strategy';
+export {mergeIntoShell, sharePerCombination, shareWithThreshold} from './bundle-strategy';
+export {CompiledScript, CompileOptions, Compiler, compileScript, CompileTarget} from './compile';
+export {CompressedVariant, CompressionEncoding, CompressOptions, Compressor, getUncompressedUrl, isEncodingSupported} from './compress';
+export {CspHashes, extractInlineScripts, getInlineScriptHashes} from './csp';
+export {createDependencyGraph, DependencyGraph, DependencyGraphGenerator, DependencyGraphNode, DependencyGraphOptions, serializeGraphAsDot} from './dependency-graph';
+export {createExternalDependencyReport, ExternalDependency, ExternalDependencyPolicy, ExternalDependencyReport, ExternalDependencyReporter} from './external-dependencies';
+export {Fingerprinter, FingerprintManifest, FingerprintOptions} from './fingerprint';
 export {forkStream} from './fork-stream';
-export {PolymerProject} from './polymer-project';
-export {addServiceWorker, generateServiceWorker} from './service-worker';
-export {AddServiceWorkerOptions} from './service-worker';
+export {Minifier, minifyCss, minifyHtml, minifyJavaScript, MinifyOptions} from './minify';
+export {PolymerProject, PolymerProjectOptions, ProjectBuild, ProjectBuildOptions} from './polymer-project';
+export {createPushManifest, PushManifest, PushManifestEntry, PushManifestGenerator} from './push-manifest';
+export {ResourceHintInjector, ResourceHintOptions} from './resource-hints';
+export {addPrecacheManifest, addServiceWorker, generatePrecacheManifest, generateServiceWorker} from './service-worker';
+export {AddServiceWorkerOptions, AppShellOptions, PrecacheEntry, ServiceWorkerGenerator, ServiceWorkerGeneratorOptions, ServiceWorkerOptions} from './service-worker';
+export {getIntegrity, IntegrityAlgorithm, SubresourceIntegrityInjector, SubresourceIntegrityOptions} from './subresource-integrity';
+export {getReachableUrls, UnusedFilesOptions, UnusedFilesReport, UnusedFilesReporter} from './unused-files';
+export {checkstyleReporter, jsonReporter, junitReporter, WarningPolicy, WarningReporter, WarningSeverity} from './warnings';
+export {IncrementalBundler} from './watch';
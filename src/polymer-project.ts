@@ -20,11 +20,26 @@ import {Transform} from 'stream';
 import File = require('vinyl');
 import * as vfs from 'vinyl-fs';
 import {ProjectConfig, ProjectOptions} from 'polymer-project-config';
-
-import {StreamAnalyzer} from './analyzer';
-import {Bundler} from './bundle';
+import {RawSourceMap, SourceMapGenerator} from 'source-map';
+
+import {BuildAnalyzer, StreamAnalyzer, StreamAnalyzerOptions} from './analyzer';
+import {BaseHrefUpdater} from './base-path';
+import {Bundler, BundlerOptions} from './bundle';
+import {CompileOptions, Compiler} from './compile';
+import {CompressOptions, Compressor} from './compress';
+import {DependencyGraphGenerator, DependencyGraphOptions} from './dependency-graph';
+import {ExternalDependencyReporter} from './external-dependencies';
+import {Fingerprinter, FingerprintOptions} from './fingerprint';
 import {FileCB} from './streams';
 import {forkStream} from './fork-stream';
+import {Minifier, MinifyOptions} from './minify';
+import {PushManifestGenerator} from './push-manifest';
+import {ResourceHintInjector, ResourceHintOptions} from './resource-hints';
+import {ServiceWorkerGenerator, ServiceWorkerGeneratorOptions} from './service-worker';
+import {SubresourceIntegrityInjector, SubresourceIntegrityOptions} from './subresource-integrity';
+import {UnusedFilesOptions, UnusedFilesReporter} from './unused-files';
+import {IncrementalBundler} from './watch';
+import {addSourceSpan, createInlinedSourceMap, createReserializedSourceMap, getTextLocation, SourceMappedFile, SourceSpan} from './source-maps';
 
 const logger = logging.getLogger('polymer-project');
 const pred = dom5.predicates;
@@ -37,11 +52,22 @@ const extensionsForType: {[mimetype: string]: string} = {
   'text/x-typescript': 'ts',
 };
 
+/**
+ * Build options that are not part of a project's polymer.json configuration.
+ */
+export interface PolymerProjectOptions extends StreamAnalyzerOptions,
+                                               BundlerOptions {}
+
 export class PolymerProject {
   config: ProjectConfig;
 
-  private _splitFiles: Map<string, SplitFile> = new Map();
-  private _parts: Map<string, SplitFile> = new Map();
+  /**
+   * The builds created with `createBuild()`, by name.
+   */
+  builds: Map<string, ProjectBuild> = new Map();
+
+  private _splitRegistry = new SplitFileRegistry();
+  private _sourceMaps: boolean;
 
   /**
    * A `Transform` stream that runs Hydrolysis analysis on the files. It
@@ -60,7 +86,9 @@ export class PolymerProject {
    */
   bundler: Bundler;
 
-  constructor(config: ProjectConfig|ProjectOptions|string) {
+  constructor(
+      config: ProjectConfig|ProjectOptions|string,
+      options: PolymerProjectOptions = {}) {
     if (config.constructor.name === 'ProjectConfig') {
       this.config = <ProjectConfig>config;
     } else if (typeof config === 'string') {
@@ -71,8 +99,9 @@ export class PolymerProject {
 
     logger.debug(`config: ${this.config}`);
 
-    this.analyzer = new StreamAnalyzer(this.config);
-    this.bundler = new Bundler(this.config, this.analyzer);
+    this._sourceMaps = options.sourceMaps !== false;
+    this.analyzer = new StreamAnalyzer(this.config, options);
+    this.bundler = new Bundler(this.config, this.analyzer, options);
   }
 
   // TODO(justinfagnani): add options, pass to vfs.src()
@@ -82,10 +111,17 @@ export class PolymerProject {
    * `getDependencyGlobs` (which are inverted and appended to the source globs).
    */
   sources(): NodeJS.ReadableStream {
-    return vfs.src(this.config.sources, {
+    const sourcesStream = vfs.src(this.config.sources, {
       cwdbase: true,
       nodir: true,
     });
+    // When the app is served under a base path, the entrypoint's <base href>
+    // needs to point there.
+    if (this.analyzer.basePath !== '/') {
+      return sourcesStream.pipe(
+          new BaseHrefUpdater(this.config, this.analyzer.basePath));
+    }
+    return sourcesStream;
   }
 
   dependencies(): NodeJS.ReadableStream {
@@ -107,49 +143,412 @@ export class PolymerProject {
   }
 
   /**
-   * Returns a new `Transform` that splits inline script into separate files.
+   * Returns a stream of rebuilt bundles for incremental builds. Once the
+   * project has been built through `analyzer` & `bundler`, every file they
+   * saw is watched for changes. Each change re-analyzes only the fragments
+   * that depend on the changed file, and emits only the re-bundled fragments
+   * and shared bundle. Call `close()` on the stream to stop watching.
+   */
+  watch(): IncrementalBundler {
+    const incrementalBundler =
+        new IncrementalBundler(this.analyzer, this.bundler);
+    incrementalBundler.watch();
+    return incrementalBundler;
+  }
+
+  /**
+   * Returns a new `Transform` that adds an HTTP/2 push manifest for an
+   * unbundled build, listing the resources to push for the entrypoint & each
+   * fragment. Files pass through it untouched.
+   *
+   * (NOTE: The analyzer stream must be in the pipeline somewhere before this.)
+   */
+  pushManifest(manifestPath?: string): PushManifestGenerator {
+    return new PushManifestGenerator(this.analyzer, manifestPath);
+  }
+
+  /**
+   * Returns a new `Transform` that adds a generated service worker, which
+   * precaches the files that pass through it. Files pass through it
+   * untouched.
+   *
+   * (NOTE: The analyzer stream must be in the pipeline somewhere before this,
+   * as must the bundler if the `bundled` option is set.)
+   */
+  serviceWorker(options?: ServiceWorkerGeneratorOptions):
+      ServiceWorkerGenerator {
+    return new ServiceWorkerGenerator(this, options);
+  }
+
+  /**
+   * Returns a new `Transform` that adds a file with the import graph of the
+   * project, as JSON or in the Graphviz DOT language. Files pass through it
+   * untouched.
+   *
+   * (NOTE: The analyzer stream must be in the pipeline somewhere before this,
+   * as must the bundler if the `bundled` option is set.)
+   */
+  dependencyGraph(options?: DependencyGraphOptions): DependencyGraphGenerator {
+    return new DependencyGraphGenerator(this.analyzer, this.bundler, options);
+  }
+
+  /**
+   * Returns a new `Transform` that reports the source files and installed
+   * dependencies that neither the entrypoint nor any fragment uses, and the
+   * `extraDependencies` that the analyzer finds without being told. Files
+   * pass through it untouched.
+   *
+   * (NOTE: The analyzer stream must be in the pipeline somewhere before this.)
+   */
+  reportUnusedFiles(options?: UnusedFilesOptions): UnusedFilesReporter {
+    return new UnusedFilesReporter(this.analyzer, options);
+  }
+
+  /**
+   * Returns a new `Transform` that adds a report of the external urls that
+   * each fragment depends on, including any that were vendored. Files pass
+   * through it untouched.
+   *
+   * (NOTE: The analyzer stream must be in the pipeline somewhere before this.)
+   */
+  reportExternalDependencies(reportPath?: string): ExternalDependencyReporter {
+    return new ExternalDependencyReporter(this.analyzer, reportPath);
+  }
+
+  /**
+   * Returns a new `Transform` that adds `<link rel="preload">` hints for the
+   * shell and its dependencies to the entrypoint, and `<link rel="prefetch">`
+   * hints for the lazy fragments and their dependencies to the shell.
+   *
+   * (NOTE: The analyzer stream must be in the pipeline somewhere before this,
+   * as must the bundler if the `bundled` option is set.)
+   */
+  addResourceHints(options?: ResourceHintOptions): ResourceHintInjector {
+    return new ResourceHintInjector(this.analyzer, this.bundler, options);
+  }
+
+  /**
+   * Returns a new `Transform` that adds `integrity` & `crossorigin`
+   * attributes to every reference to an HTML import, script or stylesheet in
+   * the stream, hashed from the contents that are actually emitted. This
+   * should come after every other step that changes files, including
+   * `project.fingerprint()`.
+   */
+  addSubresourceIntegrity(options?: SubresourceIntegrityOptions):
+      SubresourceIntegrityInjector {
+    return new SubresourceIntegrityInjector(
+        this.config,
+        Object.assign({basePath: this.analyzer.basePath}, options));
+  }
+
+  /**
+   * Returns a new `Transform` that adds a content hash to the name of each
+   * file, and updates the references between them. This should be the last
+   * step before files are written, since any later change to a file would
+   * invalidate its hash.
+   */
+  fingerprint(options?: FingerprintOptions): Fingerprinter {
+    return new Fingerprinter(
+        this.config,
+        Object.assign({basePath: this.analyzer.basePath}, options));
+  }
+
+  /**
+   * Returns a new `Transform` that adds gzip & brotli compressed variants of
+   * HTML, JS, CSS & SVG files next to the originals. This should be the last
+   * step before files are written.
+   */
+  compress(options?: CompressOptions): Compressor {
+    return new Compressor(
+        this.config,
+        Object.assign(
+            {bundleManifestPath: this.bundler.bundleManifestPath}, options));
+  }
+
+  /**
+   * Returns a new `Transform` that minifies HTML, JS & CSS files, without
+   * breaking Polymer templates & bindings. Use it between `splitHtml()` and
+   * `rejoinHtml()` to minify inline scripts & styles as well.
+   */
+  minify(options?: MinifyOptions): Minifier {
+    return new Minifier(options);
+  }
+
+  /**
+   * Returns a new `Transform` that compiles TypeScript & ES2015 files, and
+   * the scripts split out of source HTML files by `splitHtml()`, to ES5 (or
+   * the given target). `rejoinHtml()` then removes the `type` attribute of
+   * each compiled script that it puts back.
+   */
+  compile(options?: CompileOptions): Compiler {
+    return new Compiler(
+        this.config,
+        this._splitRegistry,
+        Object.assign({sourceMaps: this._sourceMaps}, options));
+  }
+
+  /**
+   * Returns a new `Transform` that splits inline scripts and styles into
+   * separate files.
    * To use an HTML splitter on multiple streams, create a new instance for each
    * stream.
    */
   splitHtml(): Transform {
-    return new HtmlSplitter(this);
+    return new HtmlSplitter(this._splitRegistry, this._sourceMaps);
   }
 
   /**
-   * Returns a new `Transform` that rejoins previously inline scripts that were
-   * split from an HTML by `splitHtml` into their parent HTML file.
+   * Returns a new `Transform` that rejoins previously inline scripts and styles
+   * that were split from an HTML by `splitHtml` into their parent HTML file.
    * To use an HTML rejoiner on multiple streams, create a new instance for each
    * stream.
    */
   rejoinHtml(): Transform {
-    return new HtmlRejoiner(this);
+    return new HtmlRejoiner(this._splitRegistry, this._sourceMaps);
+  }
+
+  isSplitFile(parentPath: string): boolean {
+    return this._splitRegistry.isSplitFile(parentPath);
+  }
+
+  getSplitFile(parentPath: string): SplitFile {
+    return this._splitRegistry.getSplitFile(parentPath);
+  }
+
+  addSplitPath(parentPath: string, childPath: string): void {
+    this._splitRegistry.addSplitPath(parentPath, childPath);
+  }
+
+  getParentFile(childPath: string): SplitFile {
+    return this._splitRegistry.getParentFile(childPath);
+  }
+
+  addRenamedPath(originalPath: string, newPath: string): void {
+    this._splitRegistry.addRenamedPath(originalPath, newPath);
+  }
+
+  /**
+   * Returns a new `ProjectBuild`, with its own splitter, rejoiner, analyzer
+   * & bundler, for building one variant of the project (bundled or unbundled,
+   * compiled or not...) alongside others. Builds share the dependency
+   * analysis done by `project.analyzer`, so it must be in the pipeline before
+   * the build's streams, and each build writes to its own directory.
+   */
+  createBuild(name: string, options: ProjectBuildOptions = {}): ProjectBuild {
+    if (this.builds.has(name)) {
+      throw new Error(`A build named "${name}" already exists`);
+    }
+    const build = new ProjectBuild(this, name, options);
+    this.builds.set(name, build);
+    return build;
+  }
+}
+
+export interface ProjectBuildOptions extends BundlerOptions {
+  /**
+   * The directory that each build's directory is created in, relative to the
+   * project root. Defaults to `build`.
+   */
+  buildRoot?: string;
+}
+
+/**
+ * One build variant of a `PolymerProject`, created by
+ * `project.createBuild()`. Nothing in it is shared with the project or with
+ * other builds, except for the dependency analysis, so the pipelines of
+ * several builds can run at the same time.
+ */
+export class ProjectBuild {
+  name: string;
+  config: ProjectConfig;
+
+  /**
+   * The directory that this build is written to.
+   */
+  buildDir: string;
+
+  /**
+   * A `Transform` stream that collects the files of this build, and reuses
+   * the dependency analysis of `project.analyzer`.
+   */
+  analyzer: BuildAnalyzer;
+
+  /**
+   * A `Transform` stream that bundles the files of this build.
+   *
+   * (NOTE: This build's analyzer stream must be in the pipeline somewhere
+   * before this.)
+   */
+  bundler: Bundler;
+
+  private _splitRegistry = new SplitFileRegistry();
+  private _sourceMaps: boolean;
+
+  constructor(
+      project: PolymerProject,
+      name: string,
+      options: ProjectBuildOptions = {}) {
+    this.name = name;
+    this.config = project.config;
+    this.buildDir =
+        osPath.resolve(this.config.root, options.buildRoot || 'build', name);
+    this.analyzer = new BuildAnalyzer(project.analyzer);
+    this._sourceMaps = options.sourceMaps !== false;
+    this.bundler = new Bundler(this.config, this.analyzer, options);
+  }
+
+  /**
+   * Returns a new `Transform` that splits inline scripts and styles into
+   * separate files, to be rejoined by this build's `rejoinHtml()`.
+   */
+  splitHtml(): Transform {
+    return new HtmlSplitter(this._splitRegistry, this._sourceMaps);
+  }
+
+  /**
+   * Returns a new `Transform` that rejoins the scripts and styles split by
+   * this build's `splitHtml()` into their parent HTML file.
+   */
+  rejoinHtml(): Transform {
+    return new HtmlRejoiner(this._splitRegistry, this._sourceMaps);
   }
 
+  /**
+   * Returns a new `Transform` that compiles TypeScript & ES2015 files, and
+   * the scripts split out of source HTML files by this build's
+   * `splitHtml()`, to ES5 (or the given target).
+   */
+  compile(options?: CompileOptions): Compiler {
+    return new Compiler(
+        this.config,
+        this._splitRegistry,
+        Object.assign({sourceMaps: this._sourceMaps}, options));
+  }
+
+  /**
+   * Tells this build's `rejoinHtml()` that the split file at `originalPath`
+   * will arrive at `newPath` instead.
+   */
+  addRenamedPath(originalPath: string, newPath: string): void {
+    this._splitRegistry.addRenamedPath(originalPath, newPath);
+  }
+
+  /**
+   * Returns a stream that writes files to this build's directory.
+   */
+  dest(): NodeJS.ReadWriteStream {
+    return vfs.dest(this.buildDir);
+  }
+}
+
+/**
+ * Tracks the files split by an `HtmlSplitter`, so that an `HtmlRejoiner` can
+ * put them back together.
+ */
+export class SplitFileRegistry {
+  private _splitFiles: Map<string, SplitFile> = new Map();
+  private _parts: Map<string, SplitFile> = new Map();
+  // The original path of each split file that has been renamed, by new path
+  private _renamedPaths: Map<string, string> = new Map();
+  // The paths of the split files (parents & parts) that have been rejoined,
+  // and haven't been split again since
+  private _rejoinedPaths: Set<string> = new Set();
+
   isSplitFile(parentPath: string): boolean {
     return this._splitFiles.has(parentPath);
   }
 
   getSplitFile(parentPath: string): SplitFile {
-    // TODO(justinfagnani): rewrite so that processing a parent file twice
-    // throws to protect against bad configurations of multiple streams that
-    // contain the same file multiple times.
     let splitFile = this._splitFiles.get(parentPath);
     if (!splitFile) {
       splitFile = new SplitFile(parentPath);
       this._splitFiles.set(parentPath, splitFile);
+      this._rejoinedPaths.delete(parentPath);
     }
     return splitFile;
   }
 
+  /**
+   * Throws if the part has already been split out, which happens when the
+   * same parent file is split twice before it has been rejoined (ex: when it
+   * is in two streams that share a splitter).
+   */
   addSplitPath(parentPath: string, childPath: string): void {
+    if (this._parts.has(childPath)) {
+      throw new Error(
+          `${parentPath} was split again before it was rejoined. ` +
+          `Is it in the stream more than once?`);
+    }
     const splitFile = this.getSplitFile(parentPath);
     splitFile.addPartPath(childPath);
     this._parts.set(childPath, splitFile);
+    this._rejoinedPaths.delete(childPath);
   }
 
   getParentFile(childPath: string): SplitFile {
     return this._parts.get(childPath);
   }
+
+  /**
+   * Records that the split file (parent or part) at `originalPath` has been
+   * renamed to `newPath`, so that it can still be rejoined. Renames made by
+   * changing the `path` of a vinyl file are found without this, from the
+   * file's `history`.
+   */
+  addRenamedPath(originalPath: string, newPath: string): void {
+    this._renamedPaths.set(newPath, originalPath);
+  }
+
+  /**
+   * Returns the path that a split file (parent or part) was registered at,
+   * given each path it has had, or null if it isn't a split file.
+   */
+  findSplitPath(paths: string[]): string {
+    for (const filePath of paths) {
+      if (this._splitFiles.has(filePath) || this._parts.has(filePath)) {
+        return filePath;
+      }
+      const originalPath = this._renamedPaths.get(filePath);
+      if (originalPath) {
+        return originalPath;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Returns the first of the given paths at which a split file (parent or
+   * part) has already been rejoined, and not split again since, or null if
+   * there is none.
+   */
+  findRejoinedPath(paths: string[]): string {
+    return paths.find((filePath) => this._rejoinedPaths.has(filePath)) || null;
+  }
+
+  /**
+   * Forgets a split file once it has been rejoined, so that it can be split
+   * again (ex: by a later build). Its paths are remembered until then, so
+   * that a copy of it that reaches the rejoiner late can be caught.
+   */
+  removeSplitFile(parentPath: string): void {
+    const splitFile = this._splitFiles.get(parentPath);
+    if (!splitFile) {
+      return;
+    }
+    const paths =
+        new Set([parentPath].concat(Array.from(splitFile.parts.keys())));
+    for (const [newPath, originalPath] of this._renamedPaths) {
+      if (paths.has(originalPath)) {
+        this._renamedPaths.delete(newPath);
+      }
+    }
+    for (const partPath of splitFile.parts.keys()) {
+      this._parts.delete(partPath);
+      this._rejoinedPaths.add(partPath);
+    }
+    this._splitFiles.delete(parentPath);
+    this._rejoinedPaths.add(parentPath);
+  }
 }
 
 /**
@@ -158,6 +557,9 @@ export class PolymerProject {
 export class SplitFile {
   path: string;
   parts: Map<string, string> = new Map();
+  partSourceMaps: Map<string, RawSourceMap> = new Map();
+  // The parts that `Compiler` compiled to plain JavaScript
+  compiledParts: Set<string> = new Set();
   outstandingPartCount = 0;
   vinylFile: File = null;
 
@@ -170,16 +572,47 @@ export class SplitFile {
     this.outstandingPartCount++;
   }
 
-  setPartContent(path: string, content: string): void {
-    console.assert(this.parts.get(path) === null);
-    console.assert(this.outstandingPartCount > 0);
+  setPartContent(path: string, content: string, sourceMap?: RawSourceMap):
+      void {
+    if (!this.parts.has(path)) {
+      throw new Error(`${path} was not split out of ${this.path}`);
+    }
+    if (this.parts.get(path) !== null) {
+      throw new Error(
+          `${path} (split out of ${this.path}) was in the stream more ` +
+          `than once`);
+    }
     this.parts.set(path, content);
+    if (sourceMap) {
+      this.partSourceMaps.set(path, sourceMap);
+    }
     this.outstandingPartCount--;
   }
 
+  setVinylFile(file: File): void {
+    if (this.vinylFile) {
+      throw new Error(`${this.path} was in the stream more than once`);
+    }
+    this.vinylFile = file;
+  }
+
   get isComplete(): boolean {
     return this.outstandingPartCount === 0 && this.vinylFile != null;
   }
+
+  /**
+   * The paths of the parts, and of the parent file itself, that haven't been
+   * seen yet.
+   */
+  get missingPaths(): string[] {
+    const missing = (this.vinylFile) ? [] : [this.path];
+    for (const [path, content] of this.parts) {
+      if (content === null) {
+        missing.push(path);
+      }
+    }
+    return missing;
+  }
 }
 
 /**
@@ -188,12 +621,16 @@ export class SplitFile {
 class HtmlSplitter extends Transform {
   static isInlineScript =
       pred.AND(pred.hasTagName('script'), pred.NOT(pred.hasAttr('src')));
+  static isInlineStyle =
+      pred.AND(pred.hasTagName('style'), pred.NOT(pred.hasAttr('src')));
 
-  _project: PolymerProject;
+  _registry: SplitFileRegistry;
+  _sourceMaps: boolean;
 
-  constructor(project: PolymerProject) {
+  constructor(registry: SplitFileRegistry, sourceMaps = true) {
     super({objectMode: true});
-    this._project = project;
+    this._registry = registry;
+    this._sourceMaps = sourceMaps;
   }
 
   _transform(file: File, _encoding: string, callback: FileCB): void {
@@ -201,11 +638,10 @@ class HtmlSplitter extends Transform {
     if (file.contents && filePath.endsWith('.html')) {
       try {
         const contents = file.contents.toString();
-        const doc = parse5.parse(contents);
+        const doc = parse5.parse(contents, {locationInfo: this._sourceMaps});
         const scriptTags = dom5.queryAll(doc, HtmlSplitter.isInlineScript);
         for (let i = 0; i < scriptTags.length; i++) {
           const scriptTag = scriptTags[i];
-          const source = dom5.getTextContent(scriptTag);
           const typeAtribute =
               dom5.getAttribute(scriptTag, 'type') || 'application/javascript';
           const extension = extensionsForType[typeAtribute];
@@ -216,27 +652,42 @@ class HtmlSplitter extends Transform {
 
           const childFilename =
               `${osPath.basename(filePath)}_script_${i}.${extension}`;
-          const childPath =
-              osPath.join(osPath.dirname(filePath), childFilename);
-          scriptTag.childNodes = [];
-          dom5.setAttribute(scriptTag, 'src', childFilename);
-          const scriptFile = new File({
-            cwd: file.cwd,
-            base: file.base,
-            path: childPath,
-            contents: new Buffer(source),
-          });
-          this._project.addSplitPath(filePath, childPath);
-          this.push(scriptFile);
+          this._splitElement(file, scriptTag, childFilename);
+        }
+
+        // Styles are also found inside of templates (ex: <dom-module>) since
+        // that is where most element styles live.
+        const styleTags = dom5.queryAll(
+            doc,
+            HtmlSplitter.isInlineStyle,
+            [],
+            dom5.childNodesIncludeTemplate);
+        for (let i = 0; i < styleTags.length; i++) {
+          const styleTag = styleTags[i];
+          const typeAttribute = dom5.getAttribute(styleTag, 'type');
+          // If this isn't a CSS style element, don't split out.
+          if (typeAttribute && typeAttribute !== 'text/css') {
+            continue;
+          }
+
+          const childFilename = `${osPath.basename(filePath)}_style_${i}.css`;
+          this._splitElement(file, styleTag, childFilename);
         }
 
         const splitContents = parse5.serialize(doc);
-        const newFile = new File({
+        const newFile: SourceMappedFile = new File({
           cwd: file.cwd,
           base: file.base,
           path: filePath,
           contents: new Buffer(splitContents),
         });
+        // Serializing the document moves everything around, so give it a map
+        // back to the original too.
+        const sourceMap = this._sourceMaps &&
+            createReserializedSourceMap(file, doc, splitContents);
+        if (sourceMap) {
+          newFile.sourceMap = sourceMap;
+        }
         callback(null, newFile);
       } catch (e) {
         logger.error(e);
@@ -246,6 +697,47 @@ class HtmlSplitter extends Transform {
       callback(null, file);
     }
   }
+
+  /**
+   * Moves the inline contents of `element` into a new child file, leaving
+   * behind a `src` attribute so that the rejoiner can find its place again.
+   * The child file is given a source map back to its location in the parent.
+   */
+  _splitElement(
+      file: SourceMappedFile,
+      element: parse5.ASTNode,
+      childFilename: string): void {
+    const filePath = osPath.normalize(file.path);
+    const childPath = osPath.join(osPath.dirname(filePath), childFilename);
+    const source = dom5.getTextContent(element);
+    // Elements only have a location if source maps are turned on.
+    const location = getTextLocation(element);
+    element.childNodes = [];
+    dom5.setAttribute(element, 'src', childFilename);
+    const childFile: SourceMappedFile = new File({
+      cwd: file.cwd,
+      base: file.base,
+      path: childPath,
+      contents: new Buffer(source),
+    });
+    if (location) {
+      const generator = new SourceMapGenerator({file: childFile.relative});
+      addSourceSpan(
+          generator,
+          {
+            contents: source,
+            line: location.line,
+            column: location.column,
+            sourcePath: file.relative,
+            sourceMap: file.sourceMap,
+          },
+          1,
+          0);
+      childFile.sourceMap = generator.toJSON();
+    }
+    this._registry.addSplitPath(filePath, childPath);
+    this.push(childFile);
+  }
 }
 
 
@@ -255,68 +747,132 @@ class HtmlSplitter extends Transform {
 class HtmlRejoiner extends Transform {
   static isExternalScript =
       pred.AND(pred.hasTagName('script'), pred.hasAttr('src'));
+  static isExternalStyle =
+      pred.AND(pred.hasTagName('style'), pred.hasAttr('src'));
 
-  _project: PolymerProject;
+  _registry: SplitFileRegistry;
+  // The split files that this rejoiner has seen some, but not all, of
+  private _incomplete = new Set<SplitFile>();
+  _sourceMaps: boolean;
 
-  constructor(project: PolymerProject) {
+  constructor(registry: SplitFileRegistry, sourceMaps = true) {
     super({objectMode: true});
-    this._project = project;
+    this._registry = registry;
+    this._sourceMaps = sourceMaps;
   }
 
   _transform(file: File, _encoding: string, callback: FileCB): void {
-    const filePath = osPath.normalize(file.path);
-    if (this._project.isSplitFile(filePath)) {
-      // this is a parent file
-      const splitFile = this._project.getSplitFile(filePath);
-      splitFile.vinylFile = file;
-      if (splitFile.isComplete) {
-        callback(null, this._rejoin(splitFile));
-      } else {
-        splitFile.vinylFile = file;
-        callback();
+    // A split file may have been renamed since it was split, so each path it
+    // has had is tried, starting with the current one.
+    const paths = file.history.map((p) => osPath.normalize(p)).reverse();
+    const filePath = this._registry.findSplitPath(paths);
+    if (!filePath) {
+      const rejoinedPath = this._registry.findRejoinedPath(paths);
+      if (rejoinedPath) {
+        callback(new Error(
+            `${rejoinedPath} reached the rejoiner after its split file ` +
+            `had already been rejoined. Is it in the stream more than once?`));
+        return;
       }
-    } else {
-      const parentFile = this._project.getParentFile(filePath);
-      if (parentFile) {
-        // this is a child file
-        parentFile.setPartContent(filePath, file.contents.toString());
-        if (parentFile.isComplete) {
-          callback(null, this._rejoin(parentFile));
-        } else {
-          callback();
-        }
+      callback(null, file);
+      return;
+    }
+    let splitFile: SplitFile;
+    try {
+      if (this._registry.isSplitFile(filePath)) {
+        // this is a parent file
+        splitFile = this._registry.getSplitFile(filePath);
+        splitFile.setVinylFile(file);
       } else {
-        callback(null, file);
+        // this is a child file
+        splitFile = this._registry.getParentFile(filePath);
+        splitFile.setPartContent(
+            filePath,
+            file.contents.toString(),
+            (<SourceMappedFile>file).sourceMap);
       }
+    } catch (error) {
+      callback(error);
+      return;
+    }
+    if (splitFile.isComplete) {
+      this._incomplete.delete(splitFile);
+      this._registry.removeSplitFile(splitFile.path);
+      callback(null, this._rejoin(splitFile));
+    } else {
+      this._incomplete.add(splitFile);
+      callback();
     }
   }
 
+  /**
+   * Fails if any split file that passed through couldn't be rejoined, since
+   * it would otherwise be silently left out of the build.
+   */
+  _flush(done: (error?: any) => void): void {
+    if (this._incomplete.size === 0) {
+      done();
+      return;
+    }
+    const lines = Array.from(this._incomplete).map((splitFile) => {
+      const missing = splitFile.missingPaths.join(', ');
+      return `  ${splitFile.path}: missing ${missing}`;
+    });
+    done(new Error(
+        `Could not rejoin ${this._incomplete.size} split HTML file(s), ` +
+        `since parts of them never reached the rejoiner:\n` +
+        lines.join('\n')));
+  }
+
   _rejoin(splitFile: SplitFile) {
     const file = splitFile.vinylFile;
     const filePath = osPath.normalize(file.path);
     const contents = file.contents.toString();
     const doc = parse5.parse(contents);
     const scriptTags = dom5.queryAll(doc, HtmlRejoiner.isExternalScript);
+    const styleTags = dom5.queryAll(
+        doc, HtmlRejoiner.isExternalStyle, [], dom5.childNodesIncludeTemplate);
+
+    // Remember what was inlined where, so that the source maps of the parts
+    // can be combined into a source map for the joined file.
+    const spans: SourceSpan[] = [];
 
-    for (let i = 0; i < scriptTags.length; i++) {
-      const scriptTag = scriptTags[i];
-      const srcAttribute = dom5.getAttribute(scriptTag, 'src');
-      const scriptPath =
+    for (const tag of scriptTags.concat(styleTags)) {
+      const srcAttribute = dom5.getAttribute(tag, 'src');
+      const childPath =
           osPath.join(osPath.dirname(splitFile.path), srcAttribute);
-      if (splitFile.parts.has(scriptPath)) {
-        const scriptSource = splitFile.parts.get(scriptPath);
-        dom5.setTextContent(scriptTag, scriptSource);
-        dom5.removeAttribute(scriptTag, 'src');
+      if (splitFile.parts.has(childPath)) {
+        const childSource = splitFile.parts.get(childPath);
+        dom5.setTextContent(tag, childSource);
+        dom5.removeAttribute(tag, 'src');
+        if (splitFile.compiledParts.has(childPath)) {
+          dom5.removeAttribute(tag, 'type');
+        }
+        if (this._sourceMaps) {
+          spans.push({
+            contents: childSource,
+            line: 1,
+            column: 0,
+            sourcePath: osPath.relative(file.base, childPath),
+            sourceMap: splitFile.partSourceMaps.get(childPath),
+          });
+        }
       }
     }
 
     const joinedContents = parse5.serialize(doc);
 
-    return new File({
+    const joinedFile: SourceMappedFile = new File({
       cwd: file.cwd,
       base: file.base,
       path: filePath,
       contents: new Buffer(joinedContents),
     });
+    const sourceMap = this._sourceMaps &&
+        createInlinedSourceMap(joinedFile.relative, joinedContents, spans);
+    if (sourceMap) {
+      joinedFile.sourceMap = sourceMap;
+    }
+    return joinedFile;
   }
 }
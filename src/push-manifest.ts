@@ -0,0 +1,115 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {DepsIndex, StreamAnalyzer} from './analyzer';
+import {getHtmlReferences, HtmlReferenceType} from './html-references';
+import {urlFromPath} from './path-transformers';
+import {ReportFile, ReportGenerator} from './report-generator';
+
+export type PushResourceType = 'document' | 'script' | 'style';
+
+export interface PushManifestEntry {
+  type: PushResourceType;
+  weight: number;
+}
+
+/**
+ * Maps the url of each entrypoint & fragment to the resources that a server
+ * should push along with it, in the format read by
+ * [http2-push-manifest](https://github.com/GoogleChrome/http2-push-manifest).
+ */
+export interface PushManifest {
+  [url: string]: {[resourceUrl: string]: PushManifestEntry};
+}
+
+/**
+ * Returns a push manifest for an unbundled build. Each fragment pushes every
+ * html import, script & style that it depends on. The entrypoint pushes the
+ * files that it references directly, along with everything that is pushed
+ * for any fragment (like the shell) that it references.
+ */
+export function createPushManifest(
+    analyzer: StreamAnalyzer, depsIndex: DepsIndex): PushManifest {
+  const config = analyzer.config;
+  const manifest: PushManifest = {};
+
+  for (const fragment of config.allFragments) {
+    const fragmentUrl = urlFromPath(config.root, fragment);
+    const resources: {[resourceUrl: string]: PushManifestEntry} = {};
+    const deps = depsIndex.fragmentToFullDeps.get(fragment);
+    if (deps) {
+      deps.imports.forEach((url) => resources[url] = push('document'));
+      deps.scripts.forEach((url) => resources[url] = push('script'));
+      deps.styles.forEach((url) => resources[url] = push('style'));
+    }
+    delete resources[fragmentUrl];
+    manifest[fragmentUrl] = resources;
+  }
+
+  const entrypointUrl = urlFromPath(config.root, config.entrypoint);
+  const entrypointFile = analyzer.getFile(config.entrypoint);
+  if (!manifest[entrypointUrl] && entrypointFile) {
+    const resources: {[resourceUrl: string]: PushManifestEntry} = {};
+    const references = getHtmlReferences(
+        entrypointFile.contents.toString(), entrypointUrl, analyzer.basePath);
+    for (const reference of references) {
+      resources[reference.url] = push(typeForReference(reference.type));
+      Object.assign(resources, manifest[reference.url]);
+    }
+    manifest[entrypointUrl] = resources;
+  }
+  return manifest;
+}
+
+function push(type: PushResourceType): PushManifestEntry {
+  return {type: type, weight: 1};
+}
+
+function typeForReference(type: HtmlReferenceType): PushResourceType {
+  return (type === 'import') ? 'document' : type;
+}
+
+/**
+ * A `Transform` stream that passes files through untouched, and then adds a
+ * push manifest generated from the analyzer's dependency index.
+ *
+ * (NOTE: The analyzer stream must be in the pipeline somewhere before this.)
+ */
+export class PushManifestGenerator extends ReportGenerator<PushManifest> {
+  manifestPath: string;
+
+  /**
+   * Resolves with the push manifest once it has been generated. (The same
+   * promise as `report`.)
+   */
+  manifest: Promise<PushManifest>;
+
+  constructor(analyzer: StreamAnalyzer, manifestPath?: string) {
+    super(analyzer);
+    this.manifestPath = manifestPath || 'push-manifest.json';
+    this.manifest = this.report;
+  }
+
+  async _createReport(): Promise<PushManifest> {
+    const depsIndex = await this.analyzer.analyzeDependencies;
+    return createPushManifest(this.analyzer, depsIndex);
+  }
+
+  _getReportFile(manifest: PushManifest): ReportFile {
+    return {
+      path: this.manifestPath,
+      contents: JSON.stringify(manifest, null, 2),
+    };
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import * as path from 'path';
+import {Transform} from 'stream';
+import File = require('vinyl');
+
+import {StreamAnalyzer} from './analyzer';
+import {FileCB} from './streams';
+
+/**
+ * The contents of a report file, and where to add it to the stream, relative
+ * to the project root.
+ */
+export interface ReportFile {
+  path: string;
+  contents: string;
+}
+
+/**
+ * A `Transform` stream that passes files through untouched, and then, once
+ * every file has been seen, creates a report from the analyzer's results and
+ * adds it to the stream as a file.
+ *
+ * (NOTE: The analyzer stream must be in the pipeline somewhere before this.)
+ */
+export abstract class ReportGenerator<T> extends Transform {
+  analyzer: StreamAnalyzer;
+
+  /**
+   * Resolves with the report once it has been created. Rejects if the report
+   * can't be created.
+   */
+  report: Promise<T>;
+  _resolveReport: (report: T) => void;
+  _rejectReport: (error: any) => void;
+
+  constructor(analyzer: StreamAnalyzer) {
+    super({objectMode: true});
+    this.analyzer = analyzer;
+    this.report = new Promise((resolve, reject) => {
+      this._resolveReport = resolve;
+      this._rejectReport = reject;
+    });
+    // Failures are reported by the stream itself, so they aren't also
+    // reported as unhandled rejections when nothing waits for the report.
+    this.report.catch(() => {});
+  }
+
+  /**
+   * Creates the report, once every file has passed through the stream.
+   */
+  abstract _createReport(): Promise<T>;
+
+  /**
+   * Returns the file to add to the stream for `report`, or null to add none.
+   */
+  abstract _getReportFile(report: T): ReportFile;
+
+  _transform(file: File, _encoding: string, callback: FileCB): void {
+    callback(null, file);
+  }
+
+  _flush(done: (error?: any) => void): void {
+    this._createReport()
+        .then((report) => {
+          const reportFile = this._getReportFile(report);
+          if (reportFile) {
+            const root = this.analyzer.config.root;
+            this.push(new File({
+              cwd: root,
+              base: root,
+              path: path.resolve(root, reportFile.path),
+              contents: new Buffer(reportFile.contents),
+            }));
+          }
+          this._resolveReport(report);
+          done();
+        })
+        .catch((error: any) => {
+          this._rejectReport(error);
+          done(error);
+        });
+  }
+}
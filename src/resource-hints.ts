@@ -0,0 +1,226 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import * as dom5 from 'dom5';
+import * as parse5 from 'parse5';
+import * as path from 'path';
+import {posix as posixPath} from 'path';
+import * as logging from 'plylog';
+import {Transform} from 'stream';
+import File = require('vinyl');
+
+import {DepsIndex, StreamAnalyzer} from './analyzer';
+import {Bundler} from './bundle';
+import {urlFromPath} from './path-transformers';
+import {FileCB} from './streams';
+
+const logger = logging.getLogger('polymer-build.resource-hints');
+
+// Elements that need to stay at the very start of <head>
+const headerTags = new Set(['meta', 'base', 'title']);
+
+/**
+ * Returns a new `<link>` element. The `as` attribute is set from the
+ * extension of `href` for preload & prefetch links.
+ */
+export function createLink(rel: string, href: string): parse5.ASTNode {
+  const link = dom5.constructors.element('link');
+  const as = getDestination(href);
+  dom5.setAttribute(link, 'rel', rel);
+  dom5.setAttribute(link, 'href', href);
+  if ((rel === 'preload' || rel === 'prefetch') && as) {
+    dom5.setAttribute(link, 'as', as);
+  }
+  return link;
+}
+
+/**
+ * Returns the request destination (the value of the `as` attribute) for the
+ * resource at `url`, or null if it can't be preloaded. (There is no
+ * destination for HTML imports; `document` is only for navigations.)
+ */
+export function getDestination(url: string): string {
+  switch (posixPath.extname(url)) {
+    case '.js':
+      return 'script';
+    case '.css':
+      return 'style';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Returns the contents of an HTML document with the given links added to its
+ * `<head>`, before any other links or scripts so that the browser discovers
+ * them as early as possible. The rest of the document keeps its formatting.
+ */
+export function insertLinks(contents: string, links: parse5.ASTNode[]): string {
+  if (links.length === 0) {
+    return contents;
+  }
+  const doc = parse5.parse(contents, {locationInfo: true});
+  const head = dom5.query(doc, dom5.predicates.hasTagName('head'));
+  const headElements = head.childNodes.filter(dom5.isElement);
+  const firstResource =
+      headElements.find((element) => !headerTags.has(element.tagName));
+  let offset = 0;
+  if (firstResource) {
+    offset = (<parse5.LocationInfo>firstResource.__location).startOffset;
+  } else if (headElements.length > 0) {
+    const lastElement = headElements[headElements.length - 1];
+    offset = (<parse5.LocationInfo>lastElement.__location).endOffset;
+  } else if (head.__location) {
+    offset = (<parse5.ElementLocationInfo>head.__location).startTag.endOffset;
+  }
+  const fragment = dom5.constructors.fragment();
+  for (const link of links) {
+    dom5.append(fragment, link);
+    dom5.append(fragment, dom5.constructors.text('\n'));
+  }
+  return contents.substring(0, offset) + parse5.serialize(fragment) +
+      contents.substring(offset);
+}
+
+export interface ResourceHintOptions {
+  /**
+   * Set if `project.bundler` is used, so that the bundles are hinted rather
+   * than each of the files inlined into them.
+   */
+  bundled?: boolean;
+}
+
+/**
+ * A `Transform` stream that adds resource hints to the entrypoint & shell,
+ * so that the browser can start fetching the files that they depend on
+ * without waiting to discover each import:
+ *
+ *   - The entrypoint preloads the scripts & stylesheets that the shell
+ *     needs. HTML imports can't be preloaded, and prefetching them would
+ *     give the shell's imports idle priority, so they are left out.
+ *   - The shell (or the entrypoint, if there is no shell) prefetches the
+ *     lazily loaded fragments and everything that they need.
+ *
+ * (NOTE: The analyzer stream must be in the pipeline somewhere before this,
+ * as must the bundler if the `bundled` option is set.)
+ */
+export class ResourceHintInjector extends Transform {
+  analyzer: StreamAnalyzer;
+  bundler: Bundler;
+
+  private _heldFiles = new Map<string, File>();
+
+  constructor(
+      analyzer: StreamAnalyzer,
+      bundler: Bundler,
+      options: ResourceHintOptions = {}) {
+    super({objectMode: true});
+    this.analyzer = analyzer;
+    this.bundler = (options.bundled) ? bundler : null;
+  }
+
+  _transform(file: File, _encoding: string, callback: FileCB): void {
+    // The entrypoint & shell are held until the dependency analysis is
+    // complete, which can only happen once every file has been seen.
+    const config = this.analyzer.config;
+    const filePath = path.normalize(file.path);
+    if (filePath === path.normalize(config.entrypoint) ||
+        config.isShell(filePath)) {
+      this._heldFiles.set(filePath, file);
+      callback();
+    } else {
+      callback(null, file);
+    }
+  }
+
+  _flush(done: (error?: any) => void): void {
+    this._addResourceHints()
+        .then(() => {
+          for (const file of this._heldFiles.values()) {
+            this.push(file);
+          }
+          done();
+        })
+        .catch((error: any) => done(error));
+  }
+
+  async _addResourceHints(): Promise<void> {
+    const config = this.analyzer.config;
+    const depsIndex = await this.analyzer.analyzeDependencies;
+    const bundles = (this.bundler) ? await this.bundler.getBundles() : null;
+
+    // The shell is loaded up front; every other fragment is lazy.
+    const criticalFragment = config.shell ||
+        (config.isFragment(config.entrypoint) ? config.entrypoint : null);
+    const critical = new Set<string>();
+    if (criticalFragment) {
+      if (criticalFragment !== config.entrypoint) {
+        critical.add(urlFromPath(config.root, criticalFragment));
+      }
+      this._getResources(criticalFragment, depsIndex, bundles)
+          .forEach((url) => critical.add(url));
+    }
+    const lazy = new Set<string>();
+    for (const fragment of config.allFragments) {
+      if (fragment === criticalFragment) {
+        continue;
+      }
+      [urlFromPath(config.root, fragment)]
+          .concat(this._getResources(fragment, depsIndex, bundles))
+          .filter((url) => !critical.has(url))
+          .forEach((url) => lazy.add(url));
+    }
+    const preload = new Set(
+        Array.from(critical).filter((url) => getDestination(url) != null));
+    logger.debug('adding resource hints', {
+      preload: Array.from(preload),
+      prefetch: Array.from(lazy),
+    });
+
+    const prefetchFrom = config.shell || config.entrypoint;
+    this._insertLinks(config.entrypoint, 'preload', preload);
+    this._insertLinks(prefetchFrom, 'prefetch', lazy);
+  }
+
+  /**
+   * Returns the urls of the files that must be loaded along with a fragment:
+   * every file that it depends on, or the shared bundles it imports if the
+   * build is bundled.
+   */
+  _getResources(
+      fragment: string,
+      depsIndex: DepsIndex,
+      bundles: Map<string, string[]>): string[] {
+    if (bundles) {
+      const sharedBundleUrls = this.bundler.getSharedBundleUrls(bundles);
+      const fragmentUrl = urlFromPath(this.analyzer.config.root, fragment);
+      return (bundles.get(fragmentUrl) || [])
+          .filter((url) => sharedBundleUrls.includes(url));
+    }
+    const deps = depsIndex.fragmentToFullDeps.get(fragment);
+    return (deps) ? deps.imports.concat(deps.scripts, deps.styles) : [];
+  }
+
+  _insertLinks(filePath: string, rel: string, urls: Set<string>): void {
+    const file = this._heldFiles.get(path.normalize(filePath));
+    if (!file || urls.size === 0) {
+      return;
+    }
+    const fileUrl = urlFromPath(this.analyzer.config.root, filePath);
+    const links = Array.from(urls).map(
+        (url) => createLink(
+            rel, posixPath.relative(posixPath.dirname(fileUrl), url)));
+    file.contents = new Buffer(insertLinks(file.contents.toString(), links));
+  }
+}
@@ -14,38 +14,96 @@
 
 /// <reference path="../custom_typings/sw-precache.d.ts" />
 
-import {writeFile} from 'fs';
+import {createHash} from 'crypto';
+import {existsSync, mkdtempSync, readFile, rmdirSync, unlinkSync, writeFile, writeFileSync} from 'fs';
+import {tmpdir} from 'os';
 import * as path from 'path';
 import * as logging from 'plylog';
+import {Transform} from 'stream';
 import {generate as swPrecacheGenerate, SWConfig} from 'sw-precache';
+import File = require('vinyl');
 
 import {DepsIndex} from './analyzer';
-import {PolymerProject} from './polymer-project';
+import {getPublicUrl} from './base-path';
+import {getUncompressedUrl} from './compress';
+import {FingerprintManifest} from './fingerprint';
+import {urlFromPath} from './path-transformers';
+import {PolymerProject, ProjectBuild} from './polymer-project';
+import {FileCB} from './streams';
+
+const globSync = require('glob').sync;
+const minimatchAll = require('minimatch-all');
 
 const logger = logging.getLogger('polymer-build.service-worker');
 
-export interface AddServiceWorkerOptions {
-  project: PolymerProject;
-  buildRoot: string;
+/**
+ * The options shared by `generateServiceWorker()` and
+ * `ServiceWorkerGenerator`.
+ */
+export interface ServiceWorkerOptions {
   bundled?: boolean;
   path?: string;
   swPrecacheConfig?: SWConfig;
+  // Configure the service worker for an app shell app, from the project's
+  // entrypoint, shell & fragments. See `AppShellOptions`.
+  appShell?: boolean|AppShellOptions;
+}
+
+export interface AddServiceWorkerOptions extends ServiceWorkerOptions {
+  project: PolymerProject|ProjectBuild;
+  buildRoot: string;
+  // If the build was fingerprinted, the manifest from `project.fingerprint()`,
+  // so that the fingerprinted files are precached.
+  fingerprints?: FingerprintManifest;
+}
+
+/**
+ * Options for the app shell preset, which serves the entrypoint for
+ * navigations and caches lazy fragments at runtime instead of precaching
+ * them. Anything set in `swPrecacheConfig` takes precedence.
+ */
+export interface AppShellOptions {
+  /**
+   * The navigation routes that are answered with the entrypoint. Defaults to
+   * every path under the base path whose last segment has no file extension.
+   */
+  navigateFallbackWhitelist?: RegExp[];
+
+  /**
+   * Precache only the entrypoint, the shell and the shell's dependencies.
+   * Everything else that lazy fragments need (including shared bundles) is
+   * then cached at runtime, as it is first loaded.
+   */
+  precacheShellOnly?: boolean;
+
+  /**
+   * The sw-toolbox strategy for files that are cached at runtime. Defaults
+   * to 'fastest'.
+   */
+  runtimeCacheHandler?: string;
+}
+
+interface DeprecatedServiceWorkerOptions extends ServiceWorkerOptions {
+  serviceWorkerPath?: string;
+  swConfig?: SWConfig;
 }
 
 /**
- * Given a user-provided AddServiceWorkerOptions object, check for deprecated
- * options. When one is found, warn the user and fix if possible.
+ * Given user-provided service worker options, check for deprecated options.
+ * When one is found, warn the user and fix if possible.
  */
-function fixDeprecatedOptions(options: any): AddServiceWorkerOptions {
-  if (typeof options.serviceWorkerPath !== 'undefined') {
+function fixDeprecatedOptions<T extends ServiceWorkerOptions>(options: T): T {
+  const deprecatedOptions = <DeprecatedServiceWorkerOptions>options;
+  if (typeof deprecatedOptions.serviceWorkerPath !== 'undefined') {
     logger.warn(
         '"serviceWorkerPath" config option has been renamed to "path" and will no longer be supported in future versions');
-    options.path = options.path || options.serviceWorkerPath;
+    options.path = options.path || deprecatedOptions.serviceWorkerPath;
   }
-  if (typeof options.swConfig !== 'undefined') {
+  if (typeof deprecatedOptions.swConfig !== 'undefined') {
     logger.warn(
         '"swConfig" config option has been renamed to "swPrecacheConfig" and will no longer be supported in future versions');
-    options.swPrecacheConfig = options.swPrecacheConfig || options.swConfig;
+    options.swPrecacheConfig =
+        options.swPrecacheConfig || deprecatedOptions.swConfig;
   }
   return options;
 }
@@ -55,7 +113,7 @@ function fixDeprecatedOptions(options: any): AddServiceWorkerOptions {
  * the information provided in the DepsIndex object.
  */
 function getPrecachedAssets(
-    depsIndex: DepsIndex, project: PolymerProject): string[] {
+    depsIndex: DepsIndex, project: PolymerProject|ProjectBuild): string[] {
   const precachedAssets = new Set<string>(project.config.allFragments);
   precachedAssets.add(project.config.entrypoint);
 
@@ -72,14 +130,126 @@ function getPrecachedAssets(
  * Returns an array of file paths for the service worker to precache for a
  * BUNDLED build, based on the information provided in the DepsIndex object.
  */
-function getBundledPrecachedAssets(project: PolymerProject) {
+function getBundledPrecachedAssets(project: PolymerProject|ProjectBuild) {
   const precachedAssets = new Set<string>(project.config.allFragments);
   precachedAssets.add(project.config.entrypoint);
   precachedAssets.add(project.bundler.sharedBundleUrl);
+  for (const sharedBundleUrl of project.bundler.sharedFiles.keys()) {
+    precachedAssets.add(sharedBundleUrl);
+  }
 
   return Array.from(precachedAssets);
 }
 
+/**
+ * Returns the urls of the files that the app shell preset still precaches,
+ * out of the given precached urls. Lazy fragments are never precached, and
+ * with `precacheShellOnly`, neither is anything that the shell doesn't need.
+ */
+function getAppShellAssets(
+    urls: string[],
+    depsIndex: DepsIndex,
+    project: PolymerProject|ProjectBuild,
+    options: AppShellOptions): string[] {
+  const config = project.config;
+  if (!options.precacheShellOnly) {
+    const lazyFragments =
+        new Set(config.allFragments.filter((f) => !config.isShell(f))
+                    .map((f) => urlFromPath(config.root, f)));
+    return urls.filter((url) => !lazyFragments.has(url));
+  }
+  const shellAssets = new Set([urlFromPath(config.root, config.entrypoint)]);
+  if (config.shell) {
+    shellAssets.add(urlFromPath(config.root, config.shell));
+    const shellDeps = depsIndex.fragmentToFullDeps.get(config.shell);
+    if (shellDeps) {
+      shellDeps.imports.concat(shellDeps.scripts, shellDeps.styles)
+          .forEach((url) => shellAssets.add(url));
+    }
+  }
+  return urls.filter((url) => shellAssets.has(url));
+}
+
+/**
+ * Returns a regular expression that matches the full urls of the given
+ * public paths, for sw-toolbox routes.
+ */
+function matchPublicUrls(publicUrls: string[]): RegExp {
+  return new RegExp(`(?:${publicUrls.map(escapeRegExp).join('|')})$`);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\\/]/g, '\\$&');
+}
+
+/**
+ * Sets the navigation fallback & runtime caching of an app shell app on
+ * `swPrecacheConfig`, where they aren't already set. `runtimeCachedUrls` are
+ * the urls that are no longer precached.
+ */
+function applyAppShellPreset(
+    swPrecacheConfig: SWConfig,
+    project: PolymerProject|ProjectBuild,
+    runtimeCachedUrls: string[],
+    fingerprints: FingerprintManifest,
+    options: AppShellOptions) {
+  const config = project.config;
+  const basePath = project.analyzer.basePath;
+  const getUrl = (url: string) =>
+      getPublicUrl(basePath, fingerprints[url] || url);
+
+  if (swPrecacheConfig.navigateFallback == null) {
+    swPrecacheConfig.navigateFallback =
+        getUrl(urlFromPath(config.root, config.entrypoint));
+  }
+  if (swPrecacheConfig.navigateFallbackWhitelist == null) {
+    swPrecacheConfig.navigateFallbackWhitelist =
+        options.navigateFallbackWhitelist ||
+        [new RegExp(`^${escapeRegExp(basePath)}(?:[^/]*/)*[^/.]*$`)];
+  }
+  if (swPrecacheConfig.runtimeCaching == null && runtimeCachedUrls.length > 0) {
+    swPrecacheConfig.runtimeCaching = [{
+      urlPattern: matchPublicUrls(runtimeCachedUrls.map(getUrl)),
+      handler: options.runtimeCacheHandler || 'fastest',
+    }];
+  }
+}
+
+/**
+ * Returns where the file (or glob) at `filePath`, which is either relative to
+ * the project root or absolute, is in the build directory.
+ */
+function getBuildPath(
+    project: PolymerProject|ProjectBuild,
+    buildRoot: string,
+    fingerprints: FingerprintManifest,
+    filePath: string): string {
+  if (filePath.startsWith(project.config.root)) {
+    filePath = filePath.substring(project.config.root.length);
+  }
+  const url = filePath.replace(/^\//, '');
+  return path.join(buildRoot, fingerprints[url] || filePath);
+}
+
+/**
+ * Returns the files on disk that match `globs`, other than compressed
+ * variants of other files (from `project.compress()`), which are never
+ * precached since the browser requests the originals.
+ */
+function globBuildFiles(globs: string[]): string[] {
+  const files = new Set<string>();
+  for (const glob of globs) {
+    const pattern = glob.split(path.sep).join('/');
+    for (const file of globSync(pattern, {nodir: true})) {
+      files.add(path.normalize(file));
+    }
+  }
+  return Array.from(files).filter((file) => {
+    const uncompressedPath = getUncompressedUrl(file);
+    return !uncompressedPath || !existsSync(uncompressedPath);
+  });
+}
+
 /**
  * Returns a promise that resolves with a generated service worker (the file
  * contents), based off of the options provided.
@@ -98,27 +268,234 @@ export async function generateServiceWorker(options: AddServiceWorkerOptions):
       Object.assign({}, options.swPrecacheConfig);
 
   const depsIndex = await project.analyzer.analyzeDependencies;
-  let staticFileGlobs = Array.from(swPrecacheConfig.staticFileGlobs || []);
-  const precachedAssets = (options.bundled) ?
-      getBundledPrecachedAssets(project) :
-      getPrecachedAssets(depsIndex, project);
+  const fingerprints = options.fingerprints || {};
+  const precachedUrls = getPrecachedUrls(
+      project, options, depsIndex, swPrecacheConfig, fingerprints);
 
-  staticFileGlobs = staticFileGlobs.concat(precachedAssets);
-  staticFileGlobs = staticFileGlobs.map((filePath: string) => {
-    if (filePath.startsWith(project.config.root)) {
-      filePath = filePath.substring(project.config.root.length);
-    }
-    return path.join(buildRoot, filePath);
-  });
+  const toBuildPath = (filePath: string) =>
+      getBuildPath(project, buildRoot, fingerprints, filePath);
+  // The globs are expanded here, rather than by sw-precache, so that
+  // compressed variants of other files can be left out.
+  const staticFileGlobs =
+      globBuildFiles((swPrecacheConfig.staticFileGlobs || []).map(toBuildPath))
+          .concat(precachedUrls.map(toBuildPath));
 
-  // swPrecache will determine the right urls by stripping buildRoot
+  // swPrecache will determine the right urls by stripping buildRoot, and
+  // prefixing the base path that the app is served under
   swPrecacheConfig.stripPrefix = buildRoot;
+  const basePath = project.analyzer.basePath;
+  if (basePath !== '/' && swPrecacheConfig.replacePrefix == null) {
+    swPrecacheConfig.stripPrefix = path.join(buildRoot, '/');
+    swPrecacheConfig.replacePrefix = basePath;
+  }
   // static files will be pre-cached
   swPrecacheConfig.staticFileGlobs = staticFileGlobs;
+  return renderServiceWorker(swPrecacheConfig);
+}
+
+export interface ServiceWorkerGeneratorOptions extends ServiceWorkerOptions {
+  // If the build was fingerprinted, the manifest from `project.fingerprint()`
+  // (or the fingerprinter's `manifest` promise), so that the fingerprinted
+  // files are precached.
+  fingerprints?: FingerprintManifest|Promise<FingerprintManifest>;
+}
+
+/**
+ * A `Transform` stream that passes files through untouched, and then adds a
+ * generated service worker that precaches them. Files are hashed from their
+ * contents in the stream, so nothing needs to be written to disk first, and
+ * any changes made to them earlier in the stream are picked up.
+ *
+ * (NOTE: The analyzer stream must be in the pipeline somewhere before this,
+ * as must the bundler if the `bundled` option is set.)
+ */
+export class ServiceWorkerGenerator extends Transform {
+  project: PolymerProject|ProjectBuild;
+  options: ServiceWorkerGeneratorOptions;
+
+  private _files = new Map<string, File>();
+
+  constructor(
+      project: PolymerProject|ProjectBuild,
+      options: ServiceWorkerGeneratorOptions = {}) {
+    super({objectMode: true});
+    this.project = project;
+    this.options = fixDeprecatedOptions(Object.assign({}, options));
+  }
+
+  _transform(file: File, _encoding: string, callback: FileCB): void {
+    if (file.isBuffer()) {
+      const root = this.project.config.root;
+      this._files.set(urlFromPath(root, file.path), file);
+    }
+    callback(null, file);
+  }
+
+  _flush(done: (error?: any) => void): void {
+    const root = this.project.config.root;
+    this._generate()
+        .then((contents) => {
+          this.push(new File({
+            cwd: root,
+            base: root,
+            path: path.resolve(root, this.options.path || 'service-worker.js'),
+            contents: contents,
+          }));
+          done();
+        })
+        .catch((error: any) => done(error));
+  }
+
+  async _generate(): Promise<Buffer> {
+    const project = this.project;
+    const swPrecacheConfig: SWConfig =
+        Object.assign({}, this.options.swPrecacheConfig);
+    const fingerprints = (await this.options.fingerprints) || {};
+    const depsIndex = await project.analyzer.analyzeDependencies;
+
+    const urls = new Set(
+        getPrecachedUrls(
+            project, this.options, depsIndex, swPrecacheConfig, fingerprints)
+            .map((url) => fingerprints[url] || url));
+    // Globs are matched against the files in the stream instead of on disk.
+    // Compressed variants of other files (from `project.compress()`) are
+    // never precached, since the browser requests the originals.
+    const staticFileGlobs = swPrecacheConfig.staticFileGlobs || [];
+    const globs = staticFileGlobs.map((glob) => glob.replace(/^\//, ''));
+    if (globs.length > 0) {
+      for (const url of this._files.keys()) {
+        if (this._files.has(getUncompressedUrl(url))) {
+          continue;
+        }
+        if (minimatchAll(url, globs)) {
+          urls.add(url);
+        }
+      }
+    }
+
+    const basePath = project.analyzer.basePath;
+    const sortedUrls = Array.from(urls).sort();
+    const entries = getPrecacheEntries(
+        sortedUrls,
+        (url) =>
+            this._files.has(url) ? <Buffer>this._files.get(url).contents : null,
+        basePath,
+        swPrecacheConfig.maximumFileSizeToCacheInBytes);
+    const filesByPublicUrl = new Map<string, File>();
+    for (const url of sortedUrls) {
+      filesByPublicUrl.set(getPublicUrl(basePath, url), this._files.get(url));
+    }
+
+    // sw-precache can only hash files on disk, so the files to precache are
+    // written to a temporary directory, and each one is given to it as the
+    // only dependency of its url.
+    const tempDir = mkdtempSync(path.join(tmpdir(), 'polymer-build-'));
+    const tempFiles: string[] = [];
+    try {
+      const dynamicUrlToDependencies: {[url: string]: string[]} = {};
+      for (const entry of entries) {
+        const tempFile = path.join(tempDir, String(tempFiles.length));
+        writeFileSync(
+            tempFile, <Buffer>filesByPublicUrl.get(entry.url).contents);
+        tempFiles.push(tempFile);
+        dynamicUrlToDependencies[entry.url] = [tempFile];
+      }
+      swPrecacheConfig.dynamicUrlToDependencies = Object.assign(
+          dynamicUrlToDependencies, swPrecacheConfig.dynamicUrlToDependencies);
+      swPrecacheConfig.staticFileGlobs = [];
+      return await renderServiceWorker(swPrecacheConfig);
+    } finally {
+      tempFiles.forEach((tempFile) => unlinkSync(tempFile));
+      rmdirSync(tempDir);
+    }
+  }
+}
+
+/**
+ * A file for a service worker to precache.
+ */
+export interface PrecacheEntry {
+  // The url that the file is served at, including the base path
+  url: string;
+  // The md5 hash of the file's contents, as a hex string
+  revision: string;
+  // The size of the file, in bytes
+  size: number;
+}
+
+/**
+ * Returns the precache entries for the files at the given root-relative
+ * urls. `getContents` returns the contents of a file, or null if it isn't in
+ * the build, in which case it is left out. Files larger than `maxSize` (2MB
+ * by default, like sw-precache) are also left out.
+ */
+function getPrecacheEntries(
+    urls: string[],
+    getContents: (url: string) => Buffer,
+    basePath: string,
+    maxSize: number = 2 * 1024 * 1024): PrecacheEntry[] {
+  const entries: PrecacheEntry[] = [];
+  for (const url of urls) {
+    const contents = getContents(url);
+    if (!contents) {
+      continue;
+    }
+    if (contents.length > maxSize) {
+      logger.warn(`not precaching ${url}: larger than ${maxSize} bytes`);
+      continue;
+    }
+    entries.push({
+      url: getPublicUrl(basePath, url),
+      revision: createHash('md5').update(contents).digest('hex'),
+      size: contents.length,
+    });
+  }
+  return entries;
+}
+
+/**
+ * Returns the root-relative urls of the files that the service worker should
+ * precache, before fingerprinting. If the app shell preset is used, it is
+ * also applied to `swPrecacheConfig`.
+ */
+function getPrecachedUrls(
+    project: PolymerProject|ProjectBuild,
+    options: ServiceWorkerOptions,
+    depsIndex: DepsIndex,
+    swPrecacheConfig: SWConfig,
+    fingerprints: FingerprintManifest): string[] {
+  const precachedAssets = (options.bundled) ?
+      getBundledPrecachedAssets(project) :
+      getPrecachedAssets(depsIndex, project);
+  const precachedUrls = precachedAssets.map(
+      (asset) => path.isAbsolute(asset) ?
+          urlFromPath(project.config.root, asset) :
+          asset);
+  if (!options.appShell) {
+    return precachedUrls;
+  }
+
+  const appShellOptions =
+      (options.appShell === true) ? {} : <AppShellOptions>options.appShell;
+  const appShellUrls =
+      getAppShellAssets(precachedUrls, depsIndex, project, appShellOptions);
+  applyAppShellPreset(
+      swPrecacheConfig,
+      project,
+      precachedUrls.filter((url) => !appShellUrls.includes(url)),
+      fingerprints,
+      appShellOptions);
+  return appShellUrls;
+}
+
+/**
+ * Resolves with the service worker that sw-precache generates from
+ * `swPrecacheConfig`.
+ */
+function renderServiceWorker(swPrecacheConfig: SWConfig): Promise<Buffer> {
   // Log service-worker helpful output at the debug log level
   swPrecacheConfig.logger = swPrecacheConfig.logger || logger.debug;
-
-  return await<Promise<Buffer>>(new Promise((resolve, reject) => {
+  return new Promise((resolve, reject) => {
     logger.debug(`writing service worker...`, swPrecacheConfig);
     swPrecacheGenerate(
         swPrecacheConfig, (err?: Error, fileContents?: string) => {
@@ -128,9 +505,94 @@ export async function generateServiceWorker(options: AddServiceWorkerOptions):
             resolve(new Buffer(fileContents));
           }
         });
-  }));
+  });
 }
 
+/**
+ * Returns a promise that resolves with the list of files that
+ * `generateServiceWorker()` would precache for the same options, including
+ * the files matching `swPrecacheConfig.staticFileGlobs`, with their urls,
+ * revision hashes & sizes, for use with a hand-written service worker or
+ * another service worker library. Like `generateServiceWorker()`, it can only
+ * be run after the build has been written to disk. The `path` option and the
+ * rest of `swPrecacheConfig` (other than `maximumFileSizeToCacheInBytes`)
+ * only affect the generated service worker, so they are ignored.
+ */
+export async function generatePrecacheManifest(
+    options: AddServiceWorkerOptions): Promise<PrecacheEntry[]> {
+  console.assert(!!options, '`project` & `buildRoot` options are required');
+  console.assert(!!options.project, '`project` option is required');
+  console.assert(!!options.buildRoot, '`buildRoot` option is required');
+  options = fixDeprecatedOptions(options);
+
+  const project = options.project;
+  const buildRoot = path.normalize(options.buildRoot);
+  const swPrecacheConfig: SWConfig =
+      Object.assign({}, options.swPrecacheConfig);
+  const depsIndex = await project.analyzer.analyzeDependencies;
+  const fingerprints = options.fingerprints || {};
+  const urls =
+      new Set(getPrecachedUrls(
+                  project, options, depsIndex, swPrecacheConfig, fingerprints)
+                  .map((url) => fingerprints[url] || url));
+  const globbedFiles = globBuildFiles(
+      (swPrecacheConfig.staticFileGlobs ||
+       []).map((glob) => getBuildPath(project, buildRoot, fingerprints, glob)));
+  for (const file of globbedFiles) {
+    urls.add(urlFromPath(buildRoot, file));
+  }
+
+  const sortedUrls = Array.from(urls).sort();
+  const contents = new Map<string, Buffer>();
+  for (const url of sortedUrls) {
+    contents.set(url, await readBuildFile(buildRoot, url));
+  }
+  return getPrecacheEntries(
+      sortedUrls,
+      (url) => contents.get(url),
+      project.analyzer.basePath,
+      swPrecacheConfig.maximumFileSizeToCacheInBytes);
+}
+
+/**
+ * Resolves with the contents of the file at `url` in the build directory, or
+ * null if there is no such file.
+ */
+function readBuildFile(buildRoot: string, url: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    readFile(path.join(buildRoot, url), (err, contents) => {
+      if (err && err.code === 'ENOENT') {
+        resolve(null);
+      } else if (err) {
+        reject(err);
+      } else {
+        resolve(contents);
+      }
+    });
+  });
+}
+
+/**
+ * Returns a promise that resolves when the precache manifest has been
+ * generated and written to the build directory as JSON, at the `path` option
+ * ("precache-manifest.json" by default).
+ */
+export function addPrecacheManifest(options: AddServiceWorkerOptions):
+    Promise<{}> {
+  return generatePrecacheManifest(options).then((manifest) => {
+    return new Promise((resolve, reject) => {
+      const manifestPath = path.join(
+          options.buildRoot, options.path || 'precache-manifest.json');
+      writeFile(manifestPath, JSON.stringify(manifest, null, 2), (err) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve();
+        }
+      });
+    });
+  });
+}
 
 /**
  * Returns a promise that resolves when a service worker has been generated
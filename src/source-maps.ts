@@ -0,0 +1,329 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import * as dom5 from 'dom5';
+import * as parse5 from 'parse5';
+import {Position, SourceRange} from 'polymer-analyzer/lib/model/source-range';
+import {RawSourceMap, SourceMapConsumer, SourceMapGenerator} from 'source-map';
+import File = require('vinyl');
+
+const pred = dom5.predicates;
+
+const isInlineScriptOrStyle = pred.AND(
+    pred.OR(pred.hasTagName('script'), pred.hasTagName('style')),
+    pred.NOT(pred.hasAttr('src')));
+
+/**
+ * A Vinyl file with an attached source map. This follows the convention used
+ * by gulp-sourcemaps, so maps created here can be updated by any transform
+ * that supports it, and written inline or to a sidecar file with
+ * `sourcemaps.write()`.
+ */
+export interface SourceMappedFile extends File { sourceMap?: RawSourceMap; }
+
+export interface SourceMapOptions {
+  /**
+   * Whether to create source maps for the files that are split, rejoined,
+   * compiled & bundled. Defaults to true. When false, none of the work of
+   * tracking where scripts & styles came from is done, and any source map
+   * already attached to a file is dropped once its contents change.
+   */
+  sourceMaps?: boolean;
+}
+
+/**
+ * A run of text that was taken from a file, along with where in that file it
+ * was found.
+ */
+export interface SourceSpan {
+  contents: string;
+  // One-based line & zero-based column of the start of `contents`
+  line: number;
+  column: number;
+  // The file that `contents` was taken from, and that file's own source map
+  // if it has one.
+  sourcePath: string;
+  sourceMap?: RawSourceMap;
+}
+
+/**
+ * Returns the one-based line & zero-based column where the text content of
+ * the given element starts, or null if the element has no text or was parsed
+ * without location info.
+ */
+export function getTextLocation(element: parse5.ASTNode):
+    {line: number, column: number} {
+  const textNode = element.childNodes && element.childNodes[0];
+  const location = textNode && <parse5.LocationInfo>textNode.__location;
+  if (!location) {
+    return null;
+  }
+  // parse5 reports one-based columns
+  return {line: location.line, column: location.col - 1};
+}
+
+/**
+ * Returns a span for every inline script & style in the given HTML file, or
+ * a single span covering the whole file for any other kind of file.
+ */
+export function getSourceSpans(file: SourceMappedFile): SourceSpan[] {
+  const contents = file.contents.toString();
+  if (!file.path.endsWith('.html')) {
+    return [{
+      contents: contents,
+      line: 1,
+      column: 0,
+      sourcePath: file.relative,
+      sourceMap: file.sourceMap,
+    }];
+  }
+  const doc = parse5.parse(contents, {locationInfo: true});
+  const spans: SourceSpan[] = [];
+  const elements = dom5.queryAll(
+      doc, isInlineScriptOrStyle, [], dom5.childNodesIncludeTemplate);
+  for (const element of elements) {
+    const location = getTextLocation(element);
+    if (location) {
+      spans.push({
+        contents: dom5.getTextContent(element),
+        line: location.line,
+        column: location.column,
+        sourcePath: file.relative,
+        sourceMap: file.sourceMap,
+      });
+    }
+  }
+  return spans;
+}
+
+/**
+ * Adds mappings for `span`, which now begins at the given line & column of
+ * the file being generated. If the span's source file had a source map of its
+ * own, mappings are traced through it back to their original sources.
+ */
+export function addSourceSpan(
+    generator: SourceMapGenerator,
+    span: SourceSpan,
+    line: number,
+    column: number): void {
+  const lines = span.contents.split('\n');
+  const generatedPosition = (spanLine: number, spanColumn: number) => ({
+    line: spanLine - span.line + line,
+    column: (spanLine === span.line) ? spanColumn - span.column + column :
+                                       spanColumn,
+  });
+
+  if (!span.sourceMap) {
+    // Map the start of every token, so that columns within a line can be
+    // resolved as well as lines.
+    for (let i = 0; i < lines.length; i++) {
+      const tokenPattern = /\w+|[^\w\s]/g;
+      const lineOffset = (i === 0) ? span.column : 0;
+      let match: RegExpExecArray;
+      while ((match = tokenPattern.exec(lines[i])) !== null) {
+        const position = {
+          line: span.line + i,
+          column: lineOffset + match.index,
+        };
+        generator.addMapping({
+          source: span.sourcePath,
+          original: position,
+          generated: generatedPosition(position.line, position.column),
+        });
+      }
+    }
+    return;
+  }
+
+  const endLine = span.line + lines.length - 1;
+  const endColumn =
+      lines[lines.length - 1].length + ((lines.length === 1) ? span.column : 0);
+  const consumer = new SourceMapConsumer(span.sourceMap);
+  consumer.eachMapping((mapping) => {
+    if (mapping.source == null || mapping.generatedLine < span.line ||
+        mapping.generatedLine > endLine ||
+        (mapping.generatedLine === span.line &&
+         mapping.generatedColumn < span.column) ||
+        (mapping.generatedLine === endLine &&
+         mapping.generatedColumn > endColumn)) {
+      return;
+    }
+    generator.addMapping({
+      source: mapping.source,
+      name: mapping.name,
+      original: {line: mapping.originalLine, column: mapping.originalColumn},
+      generated:
+          generatedPosition(mapping.generatedLine, mapping.generatedColumn),
+    });
+  });
+}
+
+/**
+ * Returns a function that finds the span that each inlined script or style
+ * came from, given its text, as they are encountered in document order.
+ * `spans` are in the order that they were inlined, so that spans with the
+ * same text (ex: the same `<style>` in two modules) are each matched to the
+ * inlined copy in the same position, rather than all to the first one.
+ */
+export function createSpanMatcher(spans: SourceSpan[]): (contents: string) =>
+    SourceSpan {
+  const spansByContents = new Map<string, SourceSpan[]>();
+  for (const span of spans) {
+    if (spansByContents.has(span.contents)) {
+      spansByContents.get(span.contents).push(span);
+    } else {
+      spansByContents.set(span.contents, [span]);
+    }
+  }
+  return (contents: string) => {
+    const matches = spansByContents.get(contents);
+    if (!matches) {
+      return null;
+    }
+    // The last match is kept for any further copies of the same text.
+    return (matches.length > 1) ? matches.shift() : matches[0];
+  };
+}
+
+/**
+ * Returns a source map for an HTML document that has had scripts & styles
+ * inlined into it. Each inline script & style in `contents` is matched to
+ * one of the given spans, which are in the order that they were inlined (see
+ * `createSpanMatcher()`). Returns null if nothing could be mapped.
+ */
+export function createInlinedSourceMap(
+    fileName: string, contents: string, spans: SourceSpan[]): RawSourceMap {
+  const generator = new SourceMapGenerator({file: fileName});
+  const doc = parse5.parse(contents, {locationInfo: true});
+  const elements = dom5.queryAll(
+      doc, isInlineScriptOrStyle, [], dom5.childNodesIncludeTemplate);
+  const matchSpan = createSpanMatcher(spans);
+  let mapped = false;
+  for (const element of elements) {
+    const span = matchSpan(dom5.getTextContent(element));
+    const location = getTextLocation(element);
+    if (span && location) {
+      addSourceSpan(generator, span, location.line, location.column);
+      mapped = true;
+    }
+  }
+  return mapped ? generator.toJSON() : null;
+}
+
+/**
+ * Returns a source map for `contents`, an HTML document that was serialized
+ * from `doc` after `doc` was parsed from `file` and then modified (ex: by
+ * having its inline scripts split out). Elements, their attributes & text are
+ * mapped back to where they were in `file`, so that positions in the new
+ * document can be traced back to the original. Returns null if the documents
+ * can't be matched up.
+ */
+export function createReserializedSourceMap(
+    file: SourceMappedFile, doc: parse5.ASTNode, contents: string):
+    RawSourceMap {
+  const isLocatedNode = (node: parse5.ASTNode) =>
+      dom5.isElement(node) || dom5.isTextNode(node);
+  const originalNodes =
+      dom5.queryAll(doc, isLocatedNode, [], dom5.childNodesIncludeTemplate);
+  const newNodes = dom5.queryAll(
+      parse5.parse(contents, {locationInfo: true}),
+      isLocatedNode,
+      [],
+      dom5.childNodesIncludeTemplate);
+  if (originalNodes.length !== newNodes.length) {
+    return null;
+  }
+  const generator = new SourceMapGenerator({file: file.relative});
+  const addSpan =
+      (text: string, from: parse5.LocationInfo, to: parse5.LocationInfo) => {
+        addSourceSpan(
+            generator,
+            {
+              contents: text,
+              line: from.line,
+              column: from.col - 1,
+              sourcePath: file.relative,
+              sourceMap: file.sourceMap,
+            },
+            to.line,
+            to.col - 1);
+      };
+  for (let i = 0; i < originalNodes.length; i++) {
+    const original = originalNodes[i];
+    const node = newNodes[i];
+    if (original.nodeName !== node.nodeName) {
+      return null;
+    }
+    const from = getStartTagLocation(original);
+    const to = getStartTagLocation(node);
+    if (!from || !to) {
+      // Nodes added to the document (ex: an implied <body>) have no location.
+      continue;
+    }
+    if (dom5.isTextNode(original)) {
+      addSpan(original.value, from, to);
+      continue;
+    }
+    addSpan('<', from, to);
+    for (const name of Object.keys(from.attrs || {})) {
+      if (to.attrs && to.attrs[name]) {
+        addSpan(name, from.attrs[name], to.attrs[name]);
+      }
+    }
+  }
+  return generator.toJSON();
+}
+
+/**
+ * Returns the location of the start tag of an element (void elements are
+ * located by their start tag alone), or of a text node.
+ */
+function getStartTagLocation(node: parse5.ASTNode):
+    parse5.StartTagLocationInfo {
+  const location =
+      <parse5.ElementLocationInfo&parse5.StartTagLocationInfo>(node.__location);
+  return location && (location.startTag || location);
+}
+
+/**
+ * Returns the location in its original source of a range in `file`, by
+ * tracing it back through the file's source map. `sourcePath` is relative to
+ * the base of `file`, and `contents` is the original source if the map
+ * includes it. Returns null if the file has no source map, or the start of
+ * the range isn't mapped.
+ */
+export function getOriginalRange(file: SourceMappedFile, range: SourceRange):
+    {sourcePath: string, start: Position, end: Position, contents: string} {
+  if (!file.sourceMap) {
+    return null;
+  }
+  const consumer = new SourceMapConsumer(file.sourceMap);
+  // Source maps use one-based lines, where source ranges are zero-based.
+  const start = consumer.originalPositionFor(
+      {line: range.start.line + 1, column: range.start.column});
+  if (start.source == null) {
+    return null;
+  }
+  let end = consumer.originalPositionFor(
+      {line: range.end.line + 1, column: range.end.column});
+  if (end.source !== start.source) {
+    end = start;
+  }
+  return {
+    sourcePath: start.source,
+    start: {line: start.line - 1, column: start.column},
+    end: {line: end.line - 1, column: end.column},
+    contents: consumer.sourceContentFor(start.source, true),
+  };
+}
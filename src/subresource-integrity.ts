@@ -0,0 +1,205 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {createHash} from 'crypto';
+import * as logging from 'plylog';
+import {ProjectConfig} from 'polymer-project-config';
+import {Transform} from 'stream';
+import File = require('vinyl');
+
+import {isDependencyExternal} from './analyzer';
+import {getHtmlReferences, HtmlReference, setHtmlReferenceAttributes, sortByReferences} from './html-references';
+import {urlFromPath} from './path-transformers';
+import {FileCB} from './streams';
+
+const logger = logging.getLogger('polymer-build.subresource-integrity');
+
+export type IntegrityAlgorithm = 'sha256' | 'sha384' | 'sha512';
+
+export interface SubresourceIntegrityOptions {
+  /**
+   * The hash function to use. Defaults to 'sha384'.
+   */
+  algorithm?: IntegrityAlgorithm;
+
+  /**
+   * The value of the `crossorigin` attribute added along with each `integrity`
+   * attribute. Defaults to 'anonymous'.
+   */
+  crossorigin?: 'anonymous'|'use-credentials';
+
+  /**
+   * Returns whether references to the file at the given url should get an
+   * `integrity` attribute. Defaults to every HTML, JS & CSS file.
+   */
+  include?: (url: string) => boolean;
+
+  /**
+   * The url path that the app is served under, for resolving absolute urls.
+   * `project.addSubresourceIntegrity()` sets this from the project's
+   * `basePath` option.
+   */
+  basePath?: string;
+
+  /**
+   * The url that the files in the stream are also served from, if any (ex:
+   * `https://cdn.example.com/my-app/`). References to urls under it (ex:
+   * `https://cdn.example.com/my-app/src/app.js`) get an `integrity` attribute
+   * for the file at the rest of the url (`src/app.js`). Other external
+   * references are left alone.
+   */
+  cdnBase?: string;
+}
+
+/**
+ * Returns the value of an `integrity` attribute for the given contents (ex:
+ * `sha384-oqVuAf...`).
+ */
+export function getIntegrity(
+    contents: Buffer, algorithm: IntegrityAlgorithm = 'sha384'): string {
+  const hash = createHash(algorithm).update(contents).digest('base64');
+  return `${algorithm}-${hash}`;
+}
+
+/**
+ * A `Transform` stream that adds `integrity` & `crossorigin` attributes to
+ * every HTML import, script & stylesheet reference to a file in the stream.
+ * Hashes are taken from the contents of the files as they pass through, so
+ * this should come after any transform that changes them (including
+ * `project.fingerprint()`).
+ *
+ * All files are held until the end of the stream, since a file can't be
+ * hashed until the attributes have been added to it.
+ */
+export class SubresourceIntegrityInjector extends Transform {
+  config: ProjectConfig;
+  algorithm: IntegrityAlgorithm;
+  crossorigin: string;
+  include: (url: string) => boolean;
+  basePath: string;
+  cdnBase: string;
+
+  private _files = new Map<string, File>();
+
+  constructor(
+      config: ProjectConfig,
+      options: SubresourceIntegrityOptions = {}) {
+    super({objectMode: true});
+    this.config = config;
+    this.algorithm = options.algorithm || 'sha384';
+    this.crossorigin = options.crossorigin || 'anonymous';
+    this.include = options.include || ((url) => /\.(html|js|css)$/.test(url));
+    this.basePath = options.basePath || '/';
+    this.cdnBase = (options.cdnBase && !options.cdnBase.endsWith('/')) ?
+        `${options.cdnBase}/` :
+        options.cdnBase;
+  }
+
+  _transform(file: File, _encoding: string, callback: FileCB): void {
+    if (!file.isBuffer()) {
+      callback(null, file);
+      return;
+    }
+    this._files.set(urlFromPath(this.config.root, file.path), file);
+    callback();
+  }
+
+  _flush(done: (error?: any) => void): void {
+    try {
+      this._addIntegrity();
+    } catch (err) {
+      done(err);
+      return;
+    }
+    for (const file of this._files.values()) {
+      this.push(file);
+    }
+    done();
+  }
+
+  /**
+   * Adds the attributes to every file, starting with the files that don't
+   * reference anything, so that each file is hashed in its final form.
+   */
+  _addIntegrity(): void {
+    const integrities = new Map<string, string>();
+    const references = new Map<string, string[]>();
+    const includeExternal = this.cdnBase != null;
+    for (const [url, file] of this._files) {
+      const fileReferences = isHtml(url) ?
+          getHtmlReferences(
+              file.contents.toString(), url, this.basePath, includeExternal) :
+          [];
+      references.set(
+          url,
+          fileReferences.map((reference) => this._getFileUrl(reference))
+              .filter((referencedUrl) => referencedUrl != null));
+    }
+
+    const getAttributes = (reference: HtmlReference) => {
+      const integrity = integrities.get(this._getFileUrl(reference));
+      return integrity ? {integrity: integrity, crossorigin: this.crossorigin} :
+                         null;
+    };
+
+    const components = sortByReferences(
+        Array.from(this._files.keys()), (url) => references.get(url));
+    for (const component of components) {
+      // Files that reference each other can't include each other's hashes,
+      // so those references are left without one.
+      if (component.length > 1 ||
+          references.get(component[0]).includes(component[0])) {
+        logger.warn(
+            `not adding integrity to circular references between: ` +
+            component.join(', '));
+      }
+      for (const url of component.filter(isHtml)) {
+        const file = this._files.get(url);
+        file.contents = new Buffer(setHtmlReferenceAttributes(
+            file.contents.toString(),
+            url,
+            getAttributes,
+            this.basePath,
+            includeExternal));
+      }
+      for (const url of component.filter((url) => this.include(url))) {
+        integrities.set(
+            url,
+            getIntegrity(
+                <Buffer>this._files.get(url).contents, this.algorithm));
+      }
+    }
+  }
+
+  /**
+   * Returns the url of the file in the stream that `reference` is to, if it
+   * is to the project or to `cdnBase`.
+   */
+  _getFileUrl(reference: HtmlReference): string {
+    if (!isDependencyExternal(reference.href)) {
+      return reference.url;
+    }
+    const href = reference.href.split(/[?#]/)[0];
+    // Protocol-relative urls (ex: `//cdn.example.com/...`) match the cdnBase
+    // with any protocol.
+    const cdnBase = href.startsWith('//') ?
+        this.cdnBase.substring(this.cdnBase.indexOf('//')) :
+        this.cdnBase;
+    return href.startsWith(cdnBase) ? href.substring(cdnBase.length) : null;
+  }
+}
+
+function isHtml(url: string): boolean {
+  return url.endsWith('.html');
+}
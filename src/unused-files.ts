@@ -0,0 +1,196 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import * as path from 'path';
+import * as logging from 'plylog';
+import File = require('vinyl');
+import * as vfs from 'vinyl-fs';
+
+import {DepsIndex, StreamAnalyzer} from './analyzer';
+import {getHtmlReferences} from './html-references';
+import {pathFromUrl, urlFromPath} from './path-transformers';
+import {ReportFile, ReportGenerator} from './report-generator';
+
+const minimatchAll = require('minimatch-all');
+const logger = logging.getLogger('polymer-build.unused-files');
+
+// Only files that can be imported are reported. Other assets (images, fonts,
+// etc.) are referenced in ways that the analyzer doesn't follow.
+const reportedExtensions = new Set(['.html', '.js', '.css']);
+
+export interface UnusedFilesReport {
+  // Source files that no fragment or the entrypoint reaches
+  sources: string[];
+  // Files in the component directory that no fragment or the entrypoint
+  // reaches
+  dependencies: string[];
+  // Packages in the component directory that none of the reached files
+  // belong to
+  packages: string[];
+  // Files matched by `extraDependencies` that the analyzer found anyway
+  extraDependencies: string[];
+}
+
+export interface UnusedFilesOptions {
+  /**
+   * The directory that dependencies are installed in, relative to the project
+   * root. Defaults to `bower_components`.
+   */
+  componentDir?: string;
+
+  /**
+   * If set, the report is added to the stream as a JSON file at this path,
+   * relative to the project root.
+   */
+  reportPath?: string;
+}
+
+/**
+ * Returns the urls of every file that the entrypoint or any fragment
+ * depends on, including the fragments themselves.
+ */
+export function getReachableUrls(
+    analyzer: StreamAnalyzer, depsIndex: DepsIndex): Set<string> {
+  const config = analyzer.config;
+  const reachable = new Set<string>();
+  for (const fragment of config.allFragments) {
+    reachable.add(urlFromPath(config.root, fragment));
+    const deps = depsIndex.fragmentToFullDeps.get(fragment);
+    if (deps) {
+      deps.imports.concat(deps.scripts, deps.styles)
+          .forEach((url) => reachable.add(url));
+    }
+  }
+  const entrypointUrl = urlFromPath(config.root, config.entrypoint);
+  reachable.add(entrypointUrl);
+  const entrypointFile = analyzer.getFile(config.entrypoint);
+  if (entrypointFile) {
+    getHtmlReferences(
+        entrypointFile.contents.toString(), entrypointUrl, analyzer.basePath)
+        .forEach((reference) => reachable.add(reference.url));
+  }
+  return reachable;
+}
+
+/**
+ * A `Transform` stream that passes files through untouched, and then reports
+ * the source files & installed dependencies that nothing in the project
+ * uses, along with any `extraDependencies` that didn't need to be listed.
+ *
+ * (NOTE: The analyzer stream must be in the pipeline somewhere before this.)
+ */
+export class UnusedFilesReporter extends ReportGenerator<UnusedFilesReport> {
+  componentDir: string;
+  reportPath: string;
+
+  constructor(analyzer: StreamAnalyzer, options: UnusedFilesOptions = {}) {
+    super(analyzer);
+    this.componentDir = options.componentDir || 'bower_components';
+    this.reportPath = options.reportPath || null;
+  }
+
+  _getReportFile(report: UnusedFilesReport): ReportFile {
+    if (!this.reportPath) {
+      return null;
+    }
+    return {path: this.reportPath, contents: JSON.stringify(report, null, 2)};
+  }
+
+  async _createReport(): Promise<UnusedFilesReport> {
+    const config = this.analyzer.config;
+    const depsIndex = await this.analyzer.analyzeDependencies;
+    const reachable = getReachableUrls(this.analyzer, depsIndex);
+    const isUnused = (url: string) =>
+        !reachable.has(url) && reportedExtensions.has(path.extname(url));
+
+    // Every source file passes through the analyzer.
+    const sources = Array.from(this.analyzer.files.keys())
+                        .filter(
+                            (url) => minimatchAll(
+                                pathFromUrl(config.root, url), config.sources))
+                        .filter(isUnused);
+
+    // Installed dependencies only pass through if something uses them, so
+    // they are listed from disk instead.
+    const componentDir = path.resolve(config.root, this.componentDir);
+    const installedUrls = (await listFiles([path.join(componentDir, '**')]))
+                              .map((p) => urlFromPath(config.root, p));
+    const dependencies = installedUrls.filter(isUnused);
+    const usedPackages = new Set<string>();
+    const allPackages = new Set<string>();
+    for (const url of installedUrls) {
+      const packageName = getPackageName(this.componentDir, url);
+      if (!packageName) {
+        continue;
+      }
+      allPackages.add(packageName);
+      if (reachable.has(url)) {
+        usedPackages.add(packageName);
+      }
+    }
+    const packages =
+        Array.from(allPackages).filter((name) => !usedPackages.has(name));
+
+    const extraDependencies = (await listFiles(config.extraDependencies))
+                                  .map((p) => urlFromPath(config.root, p))
+                                  .filter((url) => reachable.has(url));
+
+    const report = {
+      sources: sources.sort(),
+      dependencies: dependencies.sort(),
+      packages: packages.sort(),
+      extraDependencies: extraDependencies.sort(),
+    };
+    this._logReport(report);
+    return report;
+  }
+
+  _logReport(report: UnusedFilesReport): void {
+    report.sources.forEach(
+        (url) => logger.warn(`source file is never used: ${url}`));
+    report.packages.forEach(
+        (name) => logger.warn(`installed package is never used: ${name}`));
+    report.dependencies.forEach(
+        (url) => logger.debug(`installed file is never used: ${url}`));
+    report.extraDependencies.forEach(
+        (url) => logger.warn(
+            `extra dependency is already found by the analyzer: ${url}`));
+  }
+}
+
+/**
+ * Returns the name of the package (the top level directory in the component
+ * directory) that the file at `url` belongs to, or null if it isn't in one.
+ */
+function getPackageName(componentDir: string, url: string): string {
+  const segments =
+      path.posix.relative(componentDir.replace(/\\/g, '/'), url).split('/');
+  return (segments.length > 1) ? segments[0] : null;
+}
+
+/**
+ * Resolves with the paths of the files on disk that match `globs`.
+ */
+function listFiles(globs: string[]): Promise<string[]> {
+  if (globs.length === 0) {
+    return Promise.resolve([]);
+  }
+  return new Promise((resolve, reject) => {
+    const paths: string[] = [];
+    vfs.src(globs, {read: false, nodir: true})
+        .on('data', (file: File) => paths.push(file.path))
+        .on('end', () => resolve(paths))
+        .on('error', reject);
+  });
+}
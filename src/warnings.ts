@@ -0,0 +1,285 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {SourceRange} from 'polymer-analyzer/lib/model/source-range';
+import {Severity, Warning} from 'polymer-analyzer/lib/warning/warning';
+
+import {mkdirpSync} from './fs-utils';
+
+const minimatchAll = require('minimatch-all');
+
+export type WarningSeverity = 'error' | 'warning' | 'info' | 'ignore';
+
+/**
+ * Controls which analysis warnings are reported, and which of them fail the
+ * build.
+ */
+export interface WarningPolicy {
+  /**
+   * Overrides the severity of warnings by their code (ex:
+   * `{'could-not-load': 'warning'}`). Warnings set to 'ignore' are dropped.
+   */
+  severities?: {[code: string]: WarningSeverity};
+
+  /**
+   * Globs of root-relative urls (ex: `bower_components/**`). Warnings in
+   * matching files are dropped.
+   */
+  ignoreFiles?: string[];
+
+  /**
+   * Fail the build on warnings of severity 'warning', as well as on errors.
+   */
+  failOnWarnings?: boolean;
+}
+
+/**
+ * A warning whose source range has been traced back to the original source,
+ * along with the code around it.
+ */
+export interface ReportedWarning extends Warning { codeFrame?: string; }
+
+/**
+ * Receives the warnings of a build, after the warning policy has been
+ * applied, along with the root of the project. Reporters are called
+ * synchronously at the end of the analyzer stream, before the build fails on
+ * any errors.
+ */
+export interface WarningReporter {
+  report(warnings: ReportedWarning[], root: string): void;
+}
+
+/**
+ * Returns the warnings that remain after `policy` is applied, with their
+ * severities overridden. The given warnings are not modified.
+ */
+export function applyWarningPolicy<W extends Warning>(
+    warnings: Iterable<W>, policy: WarningPolicy = {}): W[] {
+  const severities = policy.severities || {};
+  const ignoreFiles = policy.ignoreFiles || [];
+  const result: W[] = [];
+  for (const warning of warnings) {
+    const file = warning.sourceRange && warning.sourceRange.file;
+    if (file && ignoreFiles.length > 0 && minimatchAll(file, ignoreFiles)) {
+      continue;
+    }
+    const severity = severities[warning.code];
+    if (severity === 'ignore') {
+      continue;
+    }
+    result.push(Object.assign({}, warning, {
+      severity: (severity) ? toSeverity(severity) : warning.severity,
+    }));
+  }
+  return result;
+}
+
+/**
+ * Returns the number of `warnings` that should fail the build under `policy`.
+ */
+export function countFailures(
+    warnings: Warning[], policy: WarningPolicy = {}): number {
+  return warnings
+      .filter(
+          (w) => w.severity === Severity.ERROR ||
+              (policy.failOnWarnings && w.severity === Severity.WARNING))
+      .length;
+}
+
+function toSeverity(severity: WarningSeverity): Severity {
+  switch (severity) {
+    case 'error':
+      return Severity.ERROR;
+    case 'warning':
+      return Severity.WARNING;
+    default:
+      return Severity.INFO;
+  }
+}
+
+function severityName(severity: Severity): string {
+  switch (severity) {
+    case Severity.ERROR:
+      return 'error';
+    case Severity.WARNING:
+      return 'warning';
+    default:
+      return 'info';
+  }
+}
+
+/**
+ * Returns the lines of `contents` around `range`, with the start of the range
+ * marked, for showing where a warning is:
+ *
+ *     2 | <script>
+ *   > 3 |   fooify(;
+ *       |          ^
+ *     4 | </script>
+ */
+export function getCodeFrame(contents: string, range: SourceRange): string {
+  const lines = contents.split('\n');
+  const first = Math.max(range.start.line - 2, 0);
+  const last = Math.min(range.start.line + 2, lines.length - 1);
+  const gutterWidth = String(last + 1).length;
+  const frame: string[] = [];
+  for (let i = first; i <= last; i++) {
+    const lineNumber = String(i + 1);
+    const gutter = ' '.repeat(gutterWidth - lineNumber.length) + lineNumber;
+    const marker = (i === range.start.line) ? '>' : ' ';
+    frame.push(`${marker} ${gutter} | ${lines[i]}`);
+    if (i === range.start.line) {
+      const blankGutter = ' '.repeat(gutterWidth);
+      const caret = ' '.repeat(range.start.column) + '^';
+      frame.push(`  ${blankGutter} | ${caret}`);
+    }
+  }
+  return frame.join('\n');
+}
+
+/**
+ * Returns `warnings` as a JSON array. Lines & columns are one-indexed.
+ */
+export function formatWarningsAsJson(warnings: Warning[]): string {
+  return JSON.stringify(
+      warnings.map((w) => {
+        const location = getLocation(w);
+        return {
+          code: w.code,
+          message: w.message,
+          severity: severityName(w.severity),
+          file: location.file,
+          line: location.line,
+          column: location.column,
+        };
+      }),
+      null,
+      2);
+}
+
+/**
+ * Returns `warnings` in the checkstyle XML format, grouped by file.
+ */
+export function formatWarningsAsCheckstyle(warnings: Warning[]): string {
+  const warningsByFile = new Map<string, Warning[]>();
+  for (const warning of warnings) {
+    const file = getLocation(warning).file;
+    if (!warningsByFile.has(file)) {
+      warningsByFile.set(file, []);
+    }
+    warningsByFile.get(file).push(warning);
+  }
+  const lines = [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<checkstyle version="4.3">',
+  ];
+  for (const [file, fileWarnings] of warningsByFile) {
+    lines.push(`  <file name="${escapeXml(file)}">`);
+    for (const warning of fileWarnings) {
+      const location = getLocation(warning);
+      lines.push(
+          `    <error line="${location.line}" column="${location.column}" ` +
+          `severity="${severityName(warning.severity)}" ` +
+          `message="${escapeXml(warning.message)}" ` +
+          `source="polymer-build.${escapeXml(warning.code)}"/>`);
+    }
+    lines.push('  </file>');
+  }
+  lines.push('</checkstyle>');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Returns `warnings` in the JUnit XML format, with a failed test case for
+ * each warning.
+ */
+export function formatWarningsAsJUnit(warnings: Warning[]): string {
+  const lines = [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<testsuites>',
+    `  <testsuite name="polymer-build" tests="${warnings.length}" ` +
+        `failures="${warnings.length}" errors="0">`,
+  ];
+  for (const warning of warnings) {
+    const location = getLocation(warning);
+    const position = `${location.file}:${location.line}:${location.column}`;
+    lines.push(
+        `    <testcase classname="${escapeXml(location.file)}" ` +
+            `name="${escapeXml(`[${warning.code}] ${position}`)}">`,
+        `      <failure type="${severityName(warning.severity)}" ` +
+            `message="${escapeXml(warning.message)}">` +
+            `${escapeXml(`${position}: ${warning.message}`)}</failure>`,
+        '    </testcase>');
+  }
+  lines.push('  </testsuite>', '</testsuites>');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Returns a reporter that writes the warnings to `outputPath` (relative to
+ * the project root) as JSON.
+ */
+export function jsonReporter(outputPath: string): WarningReporter {
+  return fileReporter(outputPath, formatWarningsAsJson);
+}
+
+/**
+ * Returns a reporter that writes the warnings to `outputPath` (relative to
+ * the project root) in the checkstyle XML format.
+ */
+export function checkstyleReporter(outputPath: string): WarningReporter {
+  return fileReporter(outputPath, formatWarningsAsCheckstyle);
+}
+
+/**
+ * Returns a reporter that writes the warnings to `outputPath` (relative to
+ * the project root) in the JUnit XML format.
+ */
+export function junitReporter(outputPath: string): WarningReporter {
+  return fileReporter(outputPath, formatWarningsAsJUnit);
+}
+
+function fileReporter(
+    outputPath: string,
+    format: (warnings: Warning[]) => string): WarningReporter {
+  return {
+    report: (warnings: Warning[], root: string) => {
+      const filePath = path.resolve(root, outputPath);
+      mkdirpSync(path.dirname(filePath));
+      fs.writeFileSync(filePath, format(warnings));
+    },
+  };
+}
+
+function getLocation(warning: Warning):
+    {file: string, line: number, column: number} {
+  const range = warning.sourceRange;
+  if (!range) {
+    return {file: '', line: 0, column: 0};
+  }
+  return {
+    file: range.file,
+    line: range.start.line + 1,
+    column: range.start.column + 1,
+  };
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+}
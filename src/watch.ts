@@ -0,0 +1,161 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as logging from 'plylog';
+import {Transform} from 'stream';
+import File = require('vinyl');
+
+import {StreamAnalyzer} from './analyzer';
+import {Bundler} from './bundle';
+import {pathFromUrl, urlFromPath} from './path-transformers';
+import {FileCB} from './streams';
+
+const logger = logging.getLogger('polymer-build.watch');
+
+// Editors often write a file more than once when saving it, so wait for
+// changes to settle before reading the file.
+const changeDelay = 50;
+
+/**
+ * A `Transform` stream for incremental builds. Changed files are written to
+ * it, and it emits only the bundles that need to be rebuilt because of them:
+ * the fragments that depend on a changed file, and the shared bundle. The
+ * analyzer's dependency index is kept up to date along the way, so each
+ * change only re-analyzes the fragments that it affects.
+ *
+ * (NOTE: Changed files are held until the analyzer has finished its initial
+ * analysis of the whole project.)
+ */
+export class IncrementalBundler extends Transform {
+  analyzer: StreamAnalyzer;
+  bundler: Bundler;
+
+  private _watchers = new Map<string, fs.FSWatcher>();
+  private _pendingChanges = new Map<string, NodeJS.Timer>();
+
+  constructor(analyzer: StreamAnalyzer, bundler: Bundler) {
+    super({objectMode: true});
+    this.analyzer = analyzer;
+    this.bundler = bundler;
+  }
+
+  _transform(file: File, _encoding: string, callback: FileCB): void {
+    this._rebuild(file).then((files) => {
+      for (const bundledFile of files) {
+        this.push(bundledFile);
+      }
+      callback();
+    }, (error: any) => callback(error));
+  }
+
+  async _rebuild(file: File): Promise<File[]> {
+    await this.analyzer.analyzeDependencies;
+    const filePath = path.normalize(file.path);
+    this.analyzer.addFile(file);
+
+    const fragments = this.analyzer.getDependentFragments(filePath);
+    if (fragments.length === 0) {
+      logger.debug(`no fragments depend on ${filePath}, ignoring...`);
+      return [];
+    }
+
+    // A change can also move dependencies in or out of the shared bundle (or
+    // the shell), in which case the fragments that share them need to be
+    // rebuilt too. Dependencies used by more than one fragment are bundled
+    // into the shell, if there is one.
+    const config = this.analyzer.config;
+    const url = urlFromPath(config.root, filePath);
+    const bundlesBefore = await this.bundler.getBundles();
+    await this.analyzer.reanalyzeFragments(fragments);
+    const bundlesAfter = await this.bundler.getBundles();
+    const rebuiltFragments = config.allFragments.filter((fragment) => {
+      const fragmentUrl = urlFromPath(config.root, fragment);
+      const before = bundlesBefore.get(fragmentUrl) || [];
+      const after = bundlesAfter.get(fragmentUrl) || [];
+      return fragments.includes(fragment) || !sameMembers(before, after) ||
+          before.includes(url) || after.includes(url) ||
+          (config.isShell(fragment) && fragments.length > 1);
+    });
+
+    logger.info(`rebuilding ${rebuiltFragments.length} fragment(s)...`);
+    const files = await this.bundler.buildBundleFiles(rebuiltFragments);
+    this._watchKnownFiles();
+    return files;
+  }
+
+  /**
+   * Starts watching every file that the analyzer knows about, and writes each
+   * one to this stream when it changes on disk. Newly discovered dependencies
+   * are watched as they are found.
+   */
+  watch(): void {
+    this.analyzer.analyzeDependencies.then(() => this._watchKnownFiles());
+  }
+
+  /**
+   * Stops watching files and ends the stream.
+   */
+  close(): void {
+    for (const watcher of this._watchers.values()) {
+      watcher.close();
+    }
+    this._watchers.clear();
+    for (const timeout of this._pendingChanges.values()) {
+      clearTimeout(timeout);
+    }
+    this._pendingChanges.clear();
+    this.end();
+  }
+
+  _watchKnownFiles(): void {
+    const root = this.analyzer.config.root;
+    for (const url of this.analyzer.files.keys()) {
+      const filePath = pathFromUrl(root, url);
+      if (this._watchers.has(filePath)) {
+        continue;
+      }
+      try {
+        this._watchers.set(
+            filePath, fs.watch(filePath, () => this._onChange(filePath)));
+      } catch (err) {
+        // Generated files (like the shared bundle) don't exist on disk.
+        logger.debug(`unable to watch ${filePath}: ${err}`);
+      }
+    }
+  }
+
+  _onChange(filePath: string): void {
+    clearTimeout(this._pendingChanges.get(filePath));
+    this._pendingChanges.set(
+        filePath, setTimeout(() => {
+          this._pendingChanges.delete(filePath);
+          fs.readFile(filePath, (err?: Error, data?: Buffer) => {
+            if (err) {
+              logger.warn(`unable to read changed file ${filePath}: ${err}`);
+              return;
+            }
+            const root = this.analyzer.config.root;
+            logger.debug(`file changed: ${filePath}`);
+            this.write(new File(
+                {cwd: root, base: root, path: filePath, contents: data}));
+          });
+        }, changeDelay));
+  }
+}
+
+function sameMembers(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((item) => b.includes(item));
+}
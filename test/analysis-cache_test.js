@@ -0,0 +1,124 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+'use strict';
+
+const assert = require('chai').assert;
+const File = require('vinyl');
+const fs = require('fs');
+const path = require('path');
+const sinon = require('sinon');
+const stream = require('stream');
+const temp = require('temp').track();
+const mergeStream = require('merge-stream');
+const ProjectConfig = require('polymer-project-config').ProjectConfig;
+
+const StreamAnalyzer = require('../lib/analyzer').StreamAnalyzer;
+
+const root = path.resolve('/root');
+
+suite('Analysis cache', () => {
+
+  let cacheDir;
+
+  setup(() => {
+    cacheDir = path.join(temp.mkdirSync('polymer-build'), 'nested', 'cache');
+  });
+
+  teardown((done) => {
+    temp.cleanup(done);
+  });
+
+  const analyze = (files, analysisCacheDir = cacheDir, projectRoot = root) => {
+    const config = new ProjectConfig({
+      root: projectRoot,
+      entrypoint: 'entrypoint.html',
+      sources: files.map((f) => f.path),
+    });
+    const analyzer =
+        new StreamAnalyzer(config, {analysisCacheDir: analysisCacheDir});
+    const analyzeSpy = sinon.spy(analyzer.analyzer, 'analyze');
+    const sourceStream = new stream.Readable({objectMode: true});
+    files.forEach((f) => sourceStream.push(f));
+    sourceStream.push(null);
+    return new Promise((resolve, reject) => {
+             mergeStream(sourceStream, analyzer.dependencies)
+                 .pipe(analyzer)
+                 .on('data', () => {})
+                 .on('finish', resolve)
+                 .on('error', reject);
+           })
+        .then(() => analyzer.analyzeDependencies)
+        .then((depsIndex) => ({
+                analyzeCalled: analyzeSpy.called,
+                deps: depsIndex.fragmentToFullDeps.get(
+                    path.resolve(root, 'entrypoint.html')),
+              }));
+  };
+
+  test('reuses the analysis of unchanged files', () => {
+    const files = () =>
+        [F('entrypoint.html', '<link rel="import" href="dep.html">'),
+         F('dep.html', '<script src="dep.js"></script>'),
+         F('dep.js', 'console.log("dep");'),
+    ];
+    return analyze(files())
+        .then((result) => {
+          assert.isTrue(result.analyzeCalled);
+          return analyze(files());
+        })
+        .then((result) => {
+          assert.isFalse(result.analyzeCalled);
+          assert.deepEqual(result.deps.imports, ['dep.html']);
+          assert.deepEqual(result.deps.scripts, ['dep.js']);
+        });
+  });
+
+  test('analyzes again when a dependency has changed', () => {
+    return analyze([
+             F('entrypoint.html', '<link rel="import" href="dep.html">'),
+             F('dep.html', '<div></div>'),
+           ])
+        .then(() => analyze([
+                F('entrypoint.html', '<link rel="import" href="dep.html">'),
+                F('dep.html', '<link rel="import" href="dep2.html">'),
+                F('dep2.html', '<div></div>'),
+              ]))
+        .then((result) => {
+          assert.isTrue(result.analyzeCalled);
+          assert.deepEqual(result.deps.imports, ['dep.html', 'dep2.html']);
+        });
+  });
+
+  test('keeps a relative cache directory in the project root', () => {
+    const projectRoot = temp.mkdirSync('polymer-build');
+    const entrypoint = new File({
+      cwd: projectRoot,
+      base: projectRoot,
+      path: path.join(projectRoot, 'entrypoint.html'),
+      contents: new Buffer('<div></div>'),
+    });
+    return analyze([entrypoint], '.cache', projectRoot).then(() => {
+      assert.isTrue(fs.existsSync(path.join(projectRoot, '.cache')));
+    });
+  });
+
+});
+
+const F = (filename, contents) => new File({
+  cwd: root,
+  base: root,
+  path: path.resolve(root, filename),
+  contents: new Buffer(contents),
+});
@@ -15,8 +15,11 @@
 'use strict';
 
 const assert = require('chai').assert;
+const File = require('vinyl');
 const path = require('path');
+const stream = require('stream');
 const StreamAnalyzer = require('../lib/analyzer').StreamAnalyzer;
+const PolymerProject = require('../lib/polymer-project').PolymerProject;
 const mergeStream = require('merge-stream');
 const vfs = require('vinyl-fs-fake');
 const sinon = require('sinon');
@@ -224,6 +227,146 @@ suite('Analyzer', () => {
                 });
       });
 
+  suite('warning policy', () => {
+
+    const analyze = (options) => {
+      const root = path.resolve('test/static/project-analysis-error');
+      const sourceFiles = path.join(root, '**');
+      const config = new ProjectConfig({
+        root: root,
+        sources: [sourceFiles],
+      });
+      const analyzer = new StreamAnalyzer(config, options);
+      return new Promise((resolve, reject) => {
+        mergeStream(
+            vfs.src(sourceFiles, {cwdbase: true}), analyzer.dependencies)
+            .pipe(analyzer)
+            .on('data', () => {})
+            .on('error', reject)
+            .on('finish', resolve);
+      });
+    };
+
+    test('can demote errors by code', () => {
+      const reported = [];
+      return analyze({
+               warningPolicy: {severities: {'parse-error': 'warning'}},
+               warningReporters: [{report: (w) => reported.push(...w)}],
+             })
+          .then(() => {
+            assert.equal(reported.length, 1);
+            assert.equal(reported[0].code, 'parse-error');
+            assert.equal(reported[0].severity, 1);
+          });
+    });
+
+    test('can fail the build on warnings', () => {
+      return analyze({
+               warningPolicy: {
+                 severities: {'parse-error': 'warning'},
+                 failOnWarnings: true,
+               },
+             })
+          .then(
+              () => {
+                throw new Error('Build failure expected!');
+              },
+              (err) => {
+                assert.equal(
+                    err.message,
+                    '0 error(s) and 1 warning(s) occurred during build ' +
+                        '(failOnWarnings is set).');
+              });
+    });
+
+    test('can suppress warnings by file', () => {
+      const reported = [];
+      return analyze({
+               warningPolicy: {ignoreFiles: ['*.html']},
+               warningReporters: [{report: (w) => reported.push(...w)}],
+             })
+          .then(() => assert.deepEqual(reported, []));
+    });
+
+  });
+
+  test('traces warnings in split files back to their original source', () => {
+    const root = path.resolve('test/static/analyzer-warnings');
+    const project = new PolymerProject({
+      root: root,
+      entrypoint: 'index.html',
+      sources: [path.join(root, '**')],
+    });
+    const reported = [];
+    const analyzer = new StreamAnalyzer(project.config, {
+      warningPolicy: {severities: {'could-not-load': 'warning'}},
+      warningReporters: [{report: (w) => reported.push(...w)}],
+    });
+    return new Promise((resolve, reject) => {
+             mergeStream(
+                 project.sources().pipe(project.splitHtml()),
+                 analyzer.dependencies)
+                 .pipe(analyzer)
+                 .on('data', () => {})
+                 .on('error', reject)
+                 .on('finish', resolve);
+           })
+        .then(() => {
+          assert.equal(reported.length, 1);
+          const range = reported[0].sourceRange;
+          assert.equal(range.file, 'index.html');
+          assert.deepEqual(range.start, {line: 3, column: 2});
+          assert.include(reported[0].codeFrame, '> 4 |   <script>');
+        });
+  });
+
+  test('re-analyzing fragments only replaces their own warnings', () => {
+    const root = path.resolve('/root');
+    const F = (filename, contents) => new File({
+      cwd: root,
+      base: root,
+      path: path.resolve(root, filename),
+      contents: new Buffer(contents),
+    });
+    const files = [
+      F('a.html', '<script>1 +;</script>'),
+      F('b.html', '<div></div>'),
+    ];
+    const config = new ProjectConfig({
+      root: root,
+      fragments: ['a.html', 'b.html'],
+      sources: files.map((f) => f.path),
+    });
+    const analyzer = new StreamAnalyzer(config, {
+      warningPolicy: {severities: {'parse-error': 'warning'}},
+    });
+    const getWarningFiles = () =>
+        Array.from(analyzer.warnings).map((w) => w.sourceRange.file);
+    const reanalyze = (file) => {
+      analyzer.addFile(file);
+      return analyzer.reanalyzeFragments([file.path]);
+    };
+    return new Promise((resolve, reject) => {
+             const sourceStream = new stream.Readable({objectMode: true});
+             mergeStream(sourceStream, analyzer.dependencies)
+                 .pipe(analyzer)
+                 .on('data', () => {})
+                 .on('error', reject)
+                 .on('finish', resolve);
+             files.forEach((f) => sourceStream.push(f));
+             sourceStream.push(null);
+           })
+        .then(() => {
+          assert.deepEqual(getWarningFiles(), ['a.html']);
+          return reanalyze(F('b.html', '<div id="b"></div>'));
+        })
+        .then(() => {
+          assert.deepEqual(getWarningFiles(), ['a.html']);
+          return reanalyze(F('a.html', '<script>1 + 1;</script>'));
+        })
+        .then(() => assert.deepEqual(getWarningFiles(), []));
+  });
+
   // TODO(fks) 10-26-2016: Refactor logging to be testable, and configurable by
   // the consumer.
   suite.skip('.printWarnings()', () => {});
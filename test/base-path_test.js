@@ -0,0 +1,151 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+'use strict';
+
+const assert = require('chai').assert;
+const File = require('vinyl');
+const path = require('path');
+const stream = require('stream');
+const mergeStream = require('merge-stream');
+const ProjectConfig = require('polymer-project-config').ProjectConfig;
+
+const StreamAnalyzer = require('../lib/analyzer').StreamAnalyzer;
+const Bundler = require('../lib/bundle').Bundler;
+const basePath = require('../lib/base-path');
+
+const root = path.resolve('/root');
+
+suite('base-path', () => {
+
+  test('normalizeBasePath()', () => {
+    assert.equal(basePath.normalizeBasePath(undefined), '/');
+    assert.equal(basePath.normalizeBasePath('tenant-x/app'), '/tenant-x/app/');
+    assert.equal(basePath.normalizeBasePath('/tenant-x/'), '/tenant-x/');
+  });
+
+  test('stripBasePath()', () => {
+    assert.equal(
+        basePath.stripBasePath('/tenant-x/', '/tenant-x/src/a.html'),
+        'src/a.html');
+    assert.equal(
+        basePath.stripBasePath('/tenant-x/', '/other/a.html'), '/other/a.html');
+    assert.equal(basePath.stripBasePath('/', '/src/a.html'), '/src/a.html');
+  });
+
+  suite('setBaseHref()', () => {
+
+    test('updates an existing <base>', () => {
+      assert.equal(
+          basePath.setBaseHref(
+              '<html><head><base href="/" target="_top"></head></html>',
+              '/tenant-x/'),
+          '<html><head><base href="/tenant-x/" target="_top"></head></html>');
+    });
+
+    test('adds a <base> if there is none', () => {
+      assert.equal(
+          basePath.setBaseHref(
+              '<html><head><meta charset="utf-8"><script src="a.js"></script>' +
+                  '</head></html>',
+              '/tenant-x/'),
+          '<html><head><meta charset="utf-8"><base href="/tenant-x/">\n' +
+              '<script src="a.js"></script></head></html>');
+    });
+
+  });
+
+  test('BaseHrefUpdater sets the entrypoint\'s base href', () => {
+    const config = new ProjectConfig({
+      root: root,
+      entrypoint: 'app/index.html',
+    });
+    const updater = new basePath.BaseHrefUpdater(config, '/tenant-x/');
+    const files = [];
+    updater.on('data', (file) => files.push(file));
+    updater.write(F('app/index.html', '<base href="/">'));
+    updater.write(F('app/other.html', '<base href="/">'));
+    updater.end();
+    assert.equal(files[0].contents.toString(), '<base href="/tenant-x/app/">');
+    assert.equal(files[1].contents.toString(), '<base href="/">');
+  });
+
+  test('BaseHrefUpdater finds the entrypoint at an unnormalized path', () => {
+    const config = new ProjectConfig({
+      root: root,
+      entrypoint: 'app/index.html',
+    });
+    const updater = new basePath.BaseHrefUpdater(config, '/tenant-x/');
+    const files = [];
+    updater.on('data', (file) => files.push(file));
+    updater.end(new File({
+      cwd: root,
+      base: root,
+      path: `${root}/src/../app/./index.html`,
+      contents: new Buffer('<base href="/">'),
+    }));
+    assert.equal(files[0].contents.toString(), '<base href="/tenant-x/app/">');
+  });
+
+  test('is applied to analysis & bundling', () => {
+    const files = [
+      F('shell.html', '<link rel="import" href="/tenant-x/framework.html">'),
+      F('src/view.html', '<link rel="import" href="/tenant-x/framework.html">'),
+      F('framework.html', '<div id="framework"></div>'),
+    ];
+    const config = new ProjectConfig({
+      root: root,
+      fragments: ['shell.html', 'src/view.html'],
+      sources: files.map((f) => f.path),
+    });
+    const analyzer = new StreamAnalyzer(config, {basePath: '/tenant-x'});
+    const bundler = new Bundler(config, analyzer);
+    const sourceStream = new stream.Readable({objectMode: true});
+    const bundledStream = mergeStream(sourceStream, analyzer.dependencies)
+                              .pipe(analyzer)
+                              .pipe(bundler);
+    files.forEach((f) => sourceStream.push(f));
+    sourceStream.push(null);
+
+    const outputFiles = new Map();
+    return new Promise((resolve, reject) => {
+             bundledStream.on('data', (file) => {
+               outputFiles.set(
+                   path.relative(root, file.path), file.contents.toString());
+             });
+             bundledStream.on('end', resolve);
+             bundledStream.on('error', reject);
+           })
+        .then(() => analyzer.analyzeDependencies)
+        .then((depsIndex) => {
+          assert.sameMembers(depsIndex.depsToFragments.get('framework.html'), [
+            path.resolve(root, 'shell.html'),
+            path.resolve(root, 'src/view.html'),
+          ]);
+          assert.include(
+              outputFiles.get('shared-bundle.html'), 'id="framework"');
+          assert.include(
+              outputFiles.get('src/view.html'),
+              '<link rel="import" href="/tenant-x/shared-bundle.html">');
+        });
+  });
+
+});
+
+const F = (filename, contents) => new File({
+  cwd: root,
+  base: root,
+  path: path.resolve(root, filename),
+  contents: new Buffer(contents),
+});
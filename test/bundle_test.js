@@ -15,6 +15,7 @@
 'use strict';
 
 const assert = require('chai').assert;
+const crypto = require('crypto');
 const dom5 = require('dom5');
 const parse5 = require('parse5');
 const File = require('vinyl');
@@ -22,9 +23,11 @@ const path = require('path');
 const stream = require('stream');
 const mergeStream = require('merge-stream');
 const ProjectConfig = require('polymer-project-config').ProjectConfig;
+const SourceMapConsumer = require('source-map').SourceMapConsumer;
 
 const analyzer = require('../lib/analyzer');
 const bundle = require('../lib/bundle');
+const bundleStrategy = require('../lib/bundle-strategy');
 
 const Bundler = bundle.Bundler;
 const StreamAnalyzer = analyzer.StreamAnalyzer;
@@ -38,13 +41,13 @@ suite('Bundler', () => {
   let bundledStream;
   let files;
 
-  let setupTest = (options) => new Promise((resolve, reject) => {
+  let setupTest = (options, bundlerOpts) => new Promise((resolve, reject) => {
     options.root = root;
     options.sources = options.files.map((f) => f.path);
 
     let config = new ProjectConfig(options);
     let analyzer = new StreamAnalyzer(config);
-    bundler = new Bundler(config, analyzer);
+    bundler = new Bundler(config, analyzer, bundlerOpts);
     sourceStream = new stream.Readable({
       objectMode: true,
     });
@@ -113,6 +116,117 @@ suite('Bundler', () => {
     // it's in the analyzer's file map for some reason
   }));
 
+  test(
+      'bundles have source maps for inlined scripts',
+      () => setupTest({
+              entrypoint: 'entrypointA.html',
+              files: [
+                F('framework.html', '<script>\nframework();\n</script>'),
+                entrypointA(),
+              ],
+            }).then((files) => {
+        const file = files.get(path.resolve(root, 'entrypointA.html'));
+        const contents = file.contents.toString();
+        assert.include(contents, 'framework();');
+        const line =
+            contents.split('\n').findIndex((l) => l === 'framework();');
+        const consumer = new SourceMapConsumer(file.sourceMap);
+        const position =
+            consumer.originalPositionFor({line: line + 1, column: 0});
+        assert.equal(position.source, 'framework.html');
+        assert.equal(position.line, 2);
+      }));
+
+  test(
+      'bundles have no source maps if turned off',
+      () => setupTest(
+                {
+                  entrypoint: 'entrypointA.html',
+                  files: [
+                    F('framework.html', '<script>\nframework();\n</script>'),
+                    entrypointA(),
+                  ],
+                },
+                {sourceMaps: false})
+                .then((files) => {
+                  const file =
+                      files.get(path.resolve(root, 'entrypointA.html'));
+                  assert.include(file.contents.toString(), 'framework();');
+                  assert.isUndefined(file.sourceMap);
+                }));
+
+  test(
+      'csp mode moves inline scripts into a sibling file',
+      () => setupTest(
+                {
+                  entrypoint: 'entrypointA.html',
+                  files: [
+                    F('framework.html',
+                      '<script>\nframework();\n</script>\n' +
+                          '<template><script>stamped();</script></template>'),
+                    entrypointA(),
+                  ],
+                },
+                {csp: true, cspHashesPath: 'csp-hashes.json'})
+                .then((files) => {
+                  const doc = parse5.parse(getFile('entrypointA.html'));
+                  const scripts = dom5.queryAll(
+                      doc,
+                      dom5.predicates.hasTagName('script'),
+                      [],
+                      dom5.childNodesIncludeTemplate);
+                  assert.deepEqual(
+                      scripts.map((s) => dom5.getAttribute(s, 'src')),
+                      [null, 'entrypointA.js']);
+                  assert.equal(dom5.getTextContent(scripts[0]), 'stamped();');
+
+                  const scriptFile =
+                      files.get(path.resolve(root, 'entrypointA.js'));
+                  const contents = scriptFile.contents.toString();
+                  assert.include(contents, 'framework();');
+                  assert.notInclude(contents, 'stamped();');
+                  const line = contents.split('\n').findIndex(
+                      (l) => l === 'framework();');
+                  const consumer = new SourceMapConsumer(scriptFile.sourceMap);
+                  const position =
+                      consumer.originalPositionFor({line: line + 1, column: 0});
+                  assert.equal(position.source, 'framework.html');
+                  assert.equal(position.line, 2);
+
+                  const hash = 'sha256-' +
+                      crypto.createHash('sha256')
+                          .update('stamped();')
+                          .digest('base64');
+                  assert.deepEqual(
+                      JSON.parse(getFile('csp-hashes.json')),
+                      {'entrypointA.html': [hash]});
+                  return bundler.cspHashes.then(
+                      (hashes) => assert.deepEqual(
+                          hashes, {'entrypointA.html': [hash]}));
+                }));
+
+  test(
+      'csp mode fails when a generated script would replace a file',
+      () => setupTest(
+                {
+                  entrypoint: 'entrypointA.html',
+                  files: [
+                    F('framework.html', '<script>framework();</script>'),
+                    entrypointA(),
+                    F('entrypointA.js', 'entrypoint();'),
+                  ],
+                },
+                {csp: true})
+                .then(
+                    () => assert.fail('resolved, expected a rejection'),
+                    (error) => {
+                      assert.include(error.message, 'entrypointA.js');
+                      return bundler.cspHashes.then(
+                          () => assert.fail('resolved, expected a rejection'),
+                          (error) =>
+                              assert.include(error.message, 'entrypointA.js'));
+                    }));
+
   test('two fragments', () => setupTest({
                                 fragments: ['shell.html', 'entrypointA.html'],
                                 files: [framework(), shell(), entrypointA()],
@@ -137,6 +251,151 @@ suite('Bundler', () => {
     assert.isTrue(hasImport(shellDoc, 'shared-bundle.html'));
   }));
 
+  test(
+      'writes a manifest describing each bundle',
+      () => setupTest(
+                {
+                  fragments: ['shell.html', 'entrypointA.html'],
+                  files: [
+                    F('framework.js', 'framework();'),
+                    F('framework.html', '<script src="framework.js"></script>'),
+                    shell(),
+                    entrypointA(),
+                  ],
+                },
+                {bundleManifestPath: 'bundle-manifest.json'})
+                .then((files) => {
+                  const manifest = JSON.parse(getFile('bundle-manifest.json'));
+                  assert.sameMembers(Object.keys(manifest.bundles), [
+                    'shell.html',
+                    'entrypointA.html',
+                    'shared-bundle.html',
+                  ]);
+
+                  const shared = manifest.bundles['shared-bundle.html'];
+                  assert.deepEqual(
+                      shared.files.map((f) => f.url),
+                      ['framework.html', 'framework.js']);
+                  assert.sameMembers(
+                      shared.files[0].sharedBy,
+                      ['shell.html', 'entrypointA.html']);
+                  assert.equal(shared.files[1].size, 'framework();'.length);
+                  assert.equal(shared.files[0].outputSize, 0);
+                  assert.equal(
+                      shared.files[1].outputSize, 'framework();'.length);
+                  assert.equal(
+                      shared.outputSize,
+                      Buffer.byteLength(getFile('shared-bundle.html')));
+
+                  const entrypoint = manifest.bundles['entrypointA.html'];
+                  assert.deepEqual(
+                      entrypoint.files.map((f) => f.url), ['entrypointA.html']);
+                  assert.deepEqual(
+                      entrypoint.files[0].sharedBy, ['entrypointA.html']);
+
+                  return bundler.bundleManifest.then(
+                      (m) => assert.deepEqual(m, manifest));
+                }));
+
+  test(
+      'shareWithThreshold() only shares dependencies used often enough',
+      () =>
+          setupTest(
+              {
+                fragments: ['entrypointB.html', 'entrypointC.html'],
+                files: [entrypointB(), entrypointC(), commonDep()],
+              },
+              {bundleStrategy: bundleStrategy.shareWithThreshold(3)})
+              .then((files) => {
+                // both entrypoints bundle commonDep
+                const entrypointBDoc =
+                    parse5.parse(getFile('entrypointB.html'));
+                assert.isTrue(hasMarker(entrypointBDoc, 'commonDep'));
+                assert.isFalse(hasImport(entrypointBDoc, 'commonDep.html'));
+                const entrypointCDoc =
+                    parse5.parse(getFile('entrypointC.html'));
+                assert.isTrue(hasMarker(entrypointCDoc, 'commonDep'));
+
+                // No shared-bundle is needed
+                assert.isFalse(hasImport(entrypointBDoc, 'shared-bundle.html'));
+                assert.isNotOk(getFile('shared-bundle.html'));
+              }));
+
+  test(
+      'sharePerCombination() creates a bundle for each set of fragments',
+      () => setupTest(
+                {
+                  fragments: [
+                    'entrypointA.html',
+                    'entrypointB.html',
+                    'entrypointD.html',
+                  ],
+                  files: [
+                    framework(),
+                    commonDep(),
+                    entrypointA(),
+                    entrypointB(),
+                    entrypointD(),
+                  ],
+                },
+                {bundleStrategy: bundleStrategy.sharePerCombination()})
+                .then((files) => {
+                  const sharedBundles =
+                      Array.from(files.keys())
+                          .map((filePath) => path.relative(root, filePath))
+                          .filter((url) => url.startsWith('shared-bundle-'));
+                  assert.equal(sharedBundles.length, 2);
+                  const frameworkBundle = sharedBundles.find(
+                      (url) =>
+                          hasMarker(parse5.parse(getFile(url)), 'framework'));
+                  const commonDepBundle = sharedBundles.find(
+                      (url) =>
+                          hasMarker(parse5.parse(getFile(url)), 'commonDep'));
+                  assert.ok(frameworkBundle);
+                  assert.ok(commonDepBundle);
+                  assert.notEqual(frameworkBundle, commonDepBundle);
+
+                  // each entrypoint only imports the bundles it needs
+                  const entrypointADoc =
+                      parse5.parse(getFile('entrypointA.html'));
+                  assert.isTrue(hasImport(entrypointADoc, frameworkBundle));
+                  assert.isFalse(hasImport(entrypointADoc, commonDepBundle));
+                  assert.isFalse(hasMarker(entrypointADoc, 'framework'));
+
+                  const entrypointBDoc =
+                      parse5.parse(getFile('entrypointB.html'));
+                  assert.isFalse(hasImport(entrypointBDoc, frameworkBundle));
+                  assert.isTrue(hasImport(entrypointBDoc, commonDepBundle));
+
+                  const entrypointDDoc =
+                      parse5.parse(getFile('entrypointD.html'));
+                  assert.isTrue(hasImport(entrypointDDoc, frameworkBundle));
+                  assert.isTrue(hasImport(entrypointDDoc, commonDepBundle));
+                  assert.isFalse(hasMarker(entrypointDDoc, 'framework'));
+                  assert.isFalse(hasMarker(entrypointDDoc, 'commonDep'));
+                }));
+
+  test(
+      'mergeIntoShell() bundles every dependency into the shell',
+      () => setupTest(
+                {
+                  shell: 'shell.html',
+                  fragments: ['entrypointB.html'],
+                  files: [framework(), shell(), entrypointB(), commonDep()],
+                },
+                {bundleStrategy: bundleStrategy.mergeIntoShell()})
+                .then((files) => {
+                  const shellDoc = parse5.parse(getFile('shell.html'));
+                  assert.isTrue(hasMarker(shellDoc, 'framework'));
+                  assert.isTrue(hasMarker(shellDoc, 'commonDep'));
+
+                  const entrypointBDoc =
+                      parse5.parse(getFile('entrypointB.html'));
+                  assert.isFalse(hasMarker(entrypointBDoc, 'commonDep'));
+                  assert.isFalse(hasImport(entrypointBDoc, 'commonDep.html'));
+                  assert.isTrue(hasImport(entrypointBDoc, 'shell.html'));
+                }));
+
   test.skip(
       'shell and entrypoint',
       () => setupTest({
@@ -258,6 +517,20 @@ suite('Bundler', () => {
         assert.isTrue(hasImport(shellDoc, 'shared-bundle.html'));
       }));
 
+  test('rejects the bundle manifest when bundling fails', () => {
+    const config = new ProjectConfig({
+      root: root,
+      entrypoint: 'entrypointA.html',
+    });
+    bundler = new Bundler(config, new StreamAnalyzer(config));
+    bundler.buildBundleFiles = () => Promise.reject(new Error('failed'));
+    bundler.on('error', () => {});
+    bundler.end();
+    return bundler.bundleManifest.then(
+        () => assert.fail('resolved, expected a rejection'),
+        (error) => assert.equal(error.message, 'failed'));
+  });
+
 });
 
 const F = (filename, contents) => new File({
@@ -291,6 +564,12 @@ const entrypointC = () => F('entrypointC.html', `
 <div id="entrypointC"></div>
 `);
 
+const entrypointD = () => F('entrypointD.html', `
+<link rel="import" href="framework.html">
+<link rel="import" href="commonDep.html">
+<div id="entrypointD"></div>
+`);
+
 const commonDep = () => F('commonDep.html', `
 <div id="commonDep"></div>
 `);
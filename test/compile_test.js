@@ -0,0 +1,184 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+'use strict';
+
+const assert = require('chai').assert;
+const File = require('vinyl');
+const path = require('path');
+const stream = require('stream');
+
+const compileScript = require('../lib/compile').compileScript;
+const PolymerProject = require('../lib/polymer-project').PolymerProject;
+
+const root = path.resolve('/root');
+
+suite('compile', () => {
+
+  suite('compileScript()', () => {
+
+    test('compiles TypeScript to ES5', () => {
+      const compiled = compileScript(
+          'const greet = (name: string) => `hi ${name}`;\n', 'greet.ts');
+      assert.equal(
+          compiled.code,
+          'var greet = function (name) { return ("hi " + name); };\n');
+      assert.deepEqual(compiled.sourceMap.sources, ['greet.ts']);
+    });
+
+    test('compiles ES2015 to the given target', () => {
+      const source = 'class Foo {}\n';
+      assert.include(compileScript(source, 'foo.js').code, 'function Foo()');
+      assert.include(
+          compileScript(source, 'foo.js', 'es2015').code, 'class Foo');
+    });
+
+    test('throws on generators when compiling to es5', () => {
+      assert.throws(
+          () => compileScript('function* g() { yield 1; }\n', 'g.js'),
+          /^g\.js\(1,1\): A generator can't be compiled to es5/);
+    });
+
+    test('throws on iteration when compiling to es5', () => {
+      assert.throws(
+          () => compileScript('for (const x of new Set([1])) {}\n', 'a.js'),
+          /^a\.js\(1,1\): A for\.\.\.of loop can't be compiled to es5/);
+      assert.throws(
+          () => compileScript('const a = [...arguments];\n', 'b.js'),
+          /^b\.js\(1,12\): A spread element can't be compiled to es5/);
+      assert.throws(
+          () => compileScript('const [a, b] = new Set([1, 2]);\n', 'c.js'),
+          /^c\.js\(1,7\): Array destructuring can't be compiled to es5/);
+    });
+
+    test('leaves generators & iteration alone for es2015', () => {
+      const source = 'function* g() { yield* [...arguments]; }\n';
+      assert.equal(compileScript(source, 'g.js', 'es2015').code, source);
+    });
+
+    test('throws on syntax errors', () => {
+      assert.throws(
+          () => compileScript('let x = ;\n', 'broken.ts'),
+          /^broken\.ts\(1,9\): Expression expected/);
+    });
+
+  });
+
+  suite('project.compile()', () => {
+
+    let project;
+
+    const build = (files, pipeline) => new Promise((resolve, reject) => {
+      const sourceStream = new stream.Readable({objectMode: true});
+      const outputFiles = new Map();
+      pipeline(sourceStream)
+          .on('data',
+              (file) => {
+                outputFiles.set(path.relative(root, file.path), file);
+              })
+          .on('end', () => resolve(outputFiles))
+          .on('error', reject);
+      files.forEach((f) => sourceStream.push(f));
+      sourceStream.push(null);
+    });
+
+    setup(() => {
+      project = new PolymerProject({
+        root: root,
+        entrypoint: 'index.html',
+      });
+    });
+
+    test('compiles split scripts and fixes their type when rejoined', () => {
+      const source = '<html><head></head><body>' +
+          '<script type="text/x-typescript">let a: number = 1;</script>' +
+          '<script type="text/ecmascript-6">let b = () => 2;</script>' +
+          '<script type="text/x-template">let c = 3;</script>' +
+          '</body></html>';
+      return build(
+                 [F('index.html', source)],
+                 (s) => s.pipe(project.splitHtml())
+                            .pipe(project.compile())
+                            .pipe(project.rejoinHtml()))
+          .then((files) => {
+            assert.equal(
+                files.get('index.html').contents.toString(),
+                '<html><head></head><body>' +
+                    '<script>var a = 1;\n</script>' +
+                    '<script>var b = function () { return 2; };\n</script>' +
+                    '<script type="text/x-template">let c = 3;</script>' +
+                    '</body></html>');
+          });
+    });
+
+    test('only compiles TypeScript & split source scripts by default', () => {
+      const script = 'let a = 1;';
+      return build(
+                 [
+                   F('index.html', `<script>${script}</script>`),
+                   F('src/app.ts', script),
+                   F('bower_components/polymer/polymer.js', script),
+                   F('bower_components/paper-button/paper-button.html',
+                     `<script>${script}</script>`),
+                 ],
+                 (s) => s.pipe(project.splitHtml())
+                            .pipe(project.compile())
+                            .pipe(project.rejoinHtml()))
+          .then((files) => {
+            assert.include(
+                files.get('index.html').contents.toString(), 'var a = 1;');
+            assert.equal(
+                files.get('src/app.js').contents.toString(), 'var a = 1;\n');
+            assert.equal(
+                files.get('bower_components/polymer/polymer.js')
+                    .contents.toString(),
+                script);
+            assert.include(
+                files.get('bower_components/paper-button/paper-button.html')
+                    .contents.toString(),
+                script);
+          });
+    });
+
+    test('renames standalone TypeScript files', () => {
+      return build(
+                 [F('src/app.ts', 'let a: number = 1;'), F('app.css', '')],
+                 (s) => s.pipe(project.compile()))
+          .then((files) => {
+            assert.sameMembers(
+                Array.from(files.keys()), ['src/app.js', 'app.css']);
+            assert.equal(
+                files.get('src/app.js').contents.toString(), 'var a = 1;\n');
+          });
+    });
+
+    test('fails the build on syntax errors', () => {
+      return build(
+                 [F('src/broken.ts', 'let x = ;')],
+                 (s) => s.pipe(project.compile()))
+          .then(
+              () => assert.fail('build succeeded, expected an error'),
+              (error) => assert.match(error.message, /Expression expected/));
+    });
+
+  });
+
+});
+
+const F = (filename, contents) => new File({
+  cwd: root,
+  base: root,
+  path: path.resolve(root, filename),
+  contents: new Buffer(contents),
+});
@@ -0,0 +1,164 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+'use strict';
+
+const assert = require('chai').assert;
+const crypto = require('crypto');
+const File = require('vinyl');
+const path = require('path');
+const stream = require('stream');
+const zlib = require('zlib');
+const ProjectConfig = require('polymer-project-config').ProjectConfig;
+
+const compress = require('../lib/compress');
+const Compressor = compress.Compressor;
+
+const root = path.resolve('/root');
+
+suite('Compressor', () => {
+
+  let compressor;
+
+  const build = (files, options) => new Promise((resolve, reject) => {
+    const config = new ProjectConfig({
+      root: root,
+      entrypoint: 'index.html',
+      sources: files.map((f) => f.path),
+    });
+    compressor = new Compressor(config, options);
+    const sourceStream = new stream.Readable({objectMode: true});
+    const outputFiles = new Map();
+    sourceStream.pipe(compressor)
+        .on('data',
+            (file) => {
+              outputFiles.set(path.relative(root, file.path), file);
+            })
+        .on('end', () => resolve(outputFiles))
+        .on('error', reject);
+    files.forEach((f) => sourceStream.push(f));
+    sourceStream.push(null);
+  });
+
+  const longHtml = '<div>compress me</div>\n'.repeat(100);
+
+  test('adds gzip variants of large files next to them', () => {
+    return build(
+               [
+                 F('index.html', longHtml),
+                 F('small.html', '<div></div>'),
+                 F('image.png', longHtml),
+               ],
+               {encodings: ['gzip']})
+        .then((files) => {
+          assert.deepEqual(Array.from(files.keys()).sort(), [
+            'image.png',
+            'index.html',
+            'index.html.gz',
+            'small.html',
+          ]);
+          assert.equal(
+              zlib.gunzipSync(files.get('index.html.gz').contents).toString(),
+              longHtml);
+          assert.equal(files.get('index.html').contents.toString(), longHtml);
+        });
+  });
+
+  test('skips variants that are not smaller than the original', () => {
+    // Random bytes don't compress.
+    const random = crypto.randomBytes(2048);
+    return build([F('random.js', random)], {encodings: ['gzip'], threshold: 0})
+        .then((files) => {
+          assert.deepEqual(Array.from(files.keys()), ['random.js']);
+        });
+  });
+
+  test('reports the compressed variants & their sizes', () => {
+    return build(
+               [F('index.html', longHtml)],
+               {encodings: ['gzip'], reportPath: 'compression.json'})
+        .then((files) => {
+          const report =
+              JSON.parse(files.get('compression.json').contents.toString());
+          const expected = {
+            url: 'index.html.gz',
+            originalUrl: 'index.html',
+            encoding: 'gzip',
+            size: files.get('index.html.gz').contents.length,
+            originalSize: longHtml.length,
+          };
+          assert.deepEqual(report, [expected]);
+          return compressor.report.then((r) => assert.deepEqual(r, report));
+        });
+  });
+
+  test('adds the variants of bundles to the bundle manifest', () => {
+    const manifest = {
+      bundles: {
+        'index.html': {inputSize: 0, outputSize: 0, files: []},
+        'small.html': {inputSize: 0, outputSize: 0, files: []},
+      },
+    };
+    const inputFiles = [
+      F('bundle-manifest.json', JSON.stringify(manifest)),
+      F('index.html', longHtml),
+      F('small.html', '<div></div>'),
+    ];
+    const options = {
+      encodings: ['gzip'],
+      bundleManifestPath: 'bundle-manifest.json',
+    };
+    return build(inputFiles, options).then((files) => {
+      const manifestFile = files.get('bundle-manifest.json');
+      const bundles = JSON.parse(manifestFile.contents.toString()).bundles;
+      const expected = {
+        url: 'index.html.gz',
+        encoding: 'gzip',
+        size: files.get('index.html.gz').contents.length,
+      };
+      assert.deepEqual(bundles['index.html'].compressed, [expected]);
+      assert.isUndefined(bundles['small.html'].compressed);
+    });
+  });
+
+  test('adds brotli variants when node supports it', function() {
+    if (!compress.isEncodingSupported('brotli')) {
+      this.skip();
+    }
+    return build([F('app.js', longHtml)]).then((files) => {
+      assert.isTrue(files.has('app.js.gz'));
+      assert.equal(
+          zlib.brotliDecompressSync(files.get('app.js.br').contents).toString(),
+          longHtml);
+    });
+  });
+
+});
+
+suite('getUncompressedUrl()', () => {
+
+  test('strips the extension of compressed files', () => {
+    assert.equal(compress.getUncompressedUrl('src/app.js.gz'), 'src/app.js');
+    assert.equal(compress.getUncompressedUrl('src/app.js.br'), 'src/app.js');
+    assert.isNull(compress.getUncompressedUrl('src/app.js'));
+  });
+
+});
+
+const F = (filename, contents) => new File({
+  cwd: root,
+  base: root,
+  path: path.resolve(root, filename),
+  contents: new Buffer(contents),
+});
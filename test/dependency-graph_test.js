@@ -0,0 +1,108 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+
+'use strict';
+
+const assert = require('chai').assert;
+
+const Bundler = require('../lib/bundle').Bundler;
+const DependencyGraphGenerator =
+    require('../lib/dependency-graph').DependencyGraphGenerator;
+const util = require('./util');
+const F = util.F;
+
+suite('DependencyGraphGenerator', () => {
+
+  const files = () =>
+      [F('src/shell.html',
+         '<link rel="import" href="../framework.html">' +
+             '<link rel="stylesheet" href="shell.css">' +
+             '<script src="https://example.com/analytics.js"></script>'),
+       F('src/shell.css', 'body {}'),
+       F('src/view.html',
+         '<link rel="import" href="../framework.html">' +
+             '<script src="view.js"></script>'),
+       F('src/view.js', 'view();'),
+       F('framework.html', '<div id="framework"></div>'),
+  ];
+
+  const generateGraph = (options) => {
+    let generator;
+    const createStreams = (analyzer, config) => {
+      const bundler = new Bundler(config, analyzer);
+      generator = new DependencyGraphGenerator(analyzer, bundler, options);
+      return (options.bundled) ? [bundler, generator] : [generator];
+    };
+    const projectOptions = {
+      shell: 'src/shell.html',
+      fragments: ['src/view.html'],
+    };
+    return util.analyzeProject(files(), projectOptions, createStreams)
+        .then(
+            (outputFiles) => generator.graph.then(
+                (graph) => ({graph: graph, files: outputFiles})));
+  };
+
+  test('writes the import graph as JSON', () => {
+    return generateGraph({}).then((result) => {
+      const graph = result.graph;
+      assert.deepEqual(
+          JSON.parse(
+              result.files.get('dependency-graph.json').contents.toString()),
+          graph);
+      assert.sameDeepMembers(graph.edges, [
+        {from: 'src/shell.html', to: 'framework.html', type: 'html-import'},
+        {from: 'src/shell.html', to: 'src/shell.css', type: 'html-style'},
+        {
+          from: 'src/shell.html',
+          to: 'https://example.com/analytics.js',
+          type: 'html-script',
+        },
+        {from: 'src/view.html', to: 'framework.html', type: 'html-import'},
+        {from: 'src/view.html', to: 'src/view.js', type: 'html-script'},
+      ]);
+      const nodes = new Map(graph.nodes.map((n) => [n.url, n]));
+      assert.isTrue(nodes.get('src/view.html').fragment);
+      assert.isFalse(nodes.get('framework.html').fragment);
+      assert.isTrue(nodes.get('https://example.com/analytics.js').external);
+      assert.isFalse(nodes.get('src/view.js').external);
+      assert.deepEqual(nodes.get('framework.html').bundles, []);
+    });
+  });
+
+  test('lists the bundles of each node of a bundled build', () => {
+    return generateGraph({bundled: true, format: 'dot'}).then((result) => {
+      const nodes = new Map(result.graph.nodes.map((n) => [n.url, n]));
+      assert.deepEqual(nodes.get('framework.html').bundles, ['src/shell.html']);
+      assert.deepEqual(nodes.get('src/view.js').bundles, ['src/view.html']);
+      assert.deepEqual(nodes.get('src/shell.css').bundles, ['src/shell.html']);
+      assert.deepEqual(
+          nodes.get('https://example.com/analytics.js').bundles, []);
+
+      const dot = result.files.get('dependency-graph.dot').contents.toString();
+      assert.match(dot, /^digraph dependencies {/);
+      assert.include(
+          dot, '"src/view.html" -> "src/view.js" [label="html-script"];');
+      assert.include(
+          dot,
+          '"framework.html" [label="framework.html\\nbundles: src/shell.html"];');
+      assert.include(
+          dot,
+          '"https://example.com/analytics.js" ' +
+              '[label="https://example.com/analytics.js", style=dashed];');
+    });
+  });
+
+});
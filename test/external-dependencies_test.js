@@ -0,0 +1,127 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+
+'use strict';
+
+const assert = require('chai').assert;
+const path = require('path');
+const mergeStream = require('merge-stream');
+
+const PolymerProject = require('../lib/polymer-project').PolymerProject;
+const externalDeps = require('../lib/external-dependencies');
+
+const root = path.resolve(__dirname, 'static/external-deps');
+
+suite('external dependencies', () => {
+
+  const build = (options) => {
+    const project = new PolymerProject(
+        {
+          root: root,
+          entrypoint: 'index.html',
+          shell: 'shell.html',
+          sources: ['index.html', 'shell.html'],
+        },
+        options);
+    const reporter = project.reportExternalDependencies();
+    const outputFiles = new Map();
+    const analyzedStream =
+        mergeStream(project.sources(), project.dependencies())
+            .pipe(project.analyzer);
+    const outputStream = analyzedStream.pipe(reporter);
+    return new Promise((resolve, reject) => {
+      analyzedStream.on('error', (error) => reject({
+                                   error: error,
+                                   files: outputFiles,
+                                 }));
+      outputStream.on('data', (file) => {
+        outputFiles.set(path.relative(root, file.path), file);
+      });
+      outputStream.on('end', () => resolve({
+                               files: outputFiles,
+                               report: reporter.report,
+                             }));
+      outputStream.on('error', (error) => reject({
+                                 error: error,
+                                 files: outputFiles,
+                               }));
+    });
+  };
+
+  test('getMirrorUrl()', () => {
+    assert.equal(
+        externalDeps.getMirrorUrl('vendor', 'https://cdn.example.com/a/b.js'),
+        'vendor/cdn.example.com/a/b.js');
+    assert.equal(
+        externalDeps.getMirrorUrl('vendor', '//cdn.example.com/a/b.js?v=2'),
+        'vendor/cdn.example.com/a/b.js');
+  });
+
+  test('are allowed and reported by default', () => {
+    return build({}).then((result) => {
+      assert.include(
+          result.files.get('shell.html').contents.toString(),
+          'href="https://cdn.example.com/lib/lib.html"');
+      const report = JSON.parse(
+          result.files.get('external-dependencies.json').contents.toString());
+      assert.deepEqual(report['shell.html'], [
+        {
+          url: 'https://cdn.example.com/lib/lib.html',
+          from: 'shell.html',
+          type: 'html-import',
+        },
+        {
+          url: '//cdn.example.com/missing.js',
+          from: 'shell.html',
+          type: 'html-script',
+        },
+      ]);
+      return result.report.then((r) => assert.deepEqual(r, report));
+    });
+  });
+
+  test('fail the build with the \'error\' policy', () => {
+    return build({externalDependencies: 'error'})
+        .then(
+            () => {
+              throw new Error('Build failure expected!');
+            },
+            (result) => {
+              assert.equal(
+                  result.error.message, '2 external dependencies found');
+            });
+  });
+
+  test('are vendored from the mirror directory', () => {
+    return build({externalDependencies: 'vendor'})
+        .then(
+            () => {
+              throw new Error('Build failure expected!');
+            },
+            (result) => {
+              // Only missing.js isn't in the mirror
+              assert.equal(
+                  result.error.message, '1 external dependencies found');
+              assert.include(
+                  result.files.get('shell.html').contents.toString(),
+                  'href="vendor/cdn.example.com/lib/lib.html"');
+              assert.include(
+                  result.files.get('vendor/cdn.example.com/lib/lib.js')
+                      .contents.toString(),
+                  'lib();');
+            });
+  });
+
+});
@@ -0,0 +1,161 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+'use strict';
+
+const assert = require('chai').assert;
+const File = require('vinyl');
+const path = require('path');
+const stream = require('stream');
+const ProjectConfig = require('polymer-project-config').ProjectConfig;
+
+const Fingerprinter = require('../lib/fingerprint').Fingerprinter;
+
+const root = path.resolve('/root');
+
+suite('Fingerprinter', () => {
+
+  const fingerprint = (files, options) => new Promise((resolve, reject) => {
+    const config = new ProjectConfig({
+      root: root,
+      entrypoint: 'index.html',
+      sources: files.map((f) => f.path),
+    });
+    const fingerprinter = new Fingerprinter(config, options);
+    const sourceStream = new stream.Readable({objectMode: true});
+    const outputFiles = new Map();
+    sourceStream.pipe(fingerprinter)
+        .on('data',
+            (file) => {
+              outputFiles.set(path.relative(root, file.path), file);
+            })
+        .on('end', () => resolve(outputFiles))
+        .on('error', reject);
+    files.forEach((f) => sourceStream.push(f));
+    sourceStream.push(null);
+  });
+
+  const getContents = (files, url) => files.get(url).contents.toString();
+
+  const projectFiles = () =>
+      [F('index.html', '<link rel="import" href="src/app.html">'),
+       F('src/app.html',
+         '<link rel="stylesheet" href="app.css">\n' +
+             '<script src="/src/app.js?v=1"></script>'),
+       F('src/app.js', 'app();'),
+       F('src/app.css', 'body {}'),
+  ];
+
+  test('renames files and rewrites their references', () => {
+    return fingerprint(projectFiles()).then((files) => {
+      const manifest =
+          JSON.parse(getContents(files, 'fingerprint-manifest.json'));
+      assert.sameMembers(
+          Object.keys(manifest), ['src/app.html', 'src/app.js', 'src/app.css']);
+      for (const url of Object.keys(manifest)) {
+        assert.match(manifest[url], /^src\/app\.[0-9a-f]{8}\.(html|js|css)$/);
+        assert.isTrue(files.has(manifest[url]));
+        assert.isFalse(files.has(url));
+      }
+
+      // the entrypoint keeps its name
+      assert.equal(
+          getContents(files, 'index.html'),
+          `<link rel="import" href="${manifest['src/app.html']}">`);
+      assert.equal(
+          getContents(files, manifest['src/app.html']),
+          `<link rel="stylesheet" href="${path.basename(
+              manifest['src/app.css'])}">\n` +
+              `<script src="/${manifest['src/app.js']}?v=1"></script>`);
+    });
+  });
+
+  test('changes the names of files whose dependencies changed', () => {
+    const changedFiles = projectFiles();
+    changedFiles[2] = F('src/app.js', 'changed();');
+    return Promise.all([fingerprint(projectFiles()), fingerprint(changedFiles)])
+        .then((results) => {
+          const before =
+              JSON.parse(getContents(results[0], 'fingerprint-manifest.json'));
+          const after =
+              JSON.parse(getContents(results[1], 'fingerprint-manifest.json'));
+          assert.equal(before['src/app.css'], after['src/app.css']);
+          assert.notEqual(before['src/app.js'], after['src/app.js']);
+          assert.notEqual(before['src/app.html'], after['src/app.html']);
+        });
+  });
+
+  test('leaves files with circular references alone', () => {
+    return fingerprint([
+             F('index.html', '<link rel="import" href="a.html">'),
+             F('a.html', '<link rel="import" href="b.html">'),
+             F('b.html',
+               '<link rel="import" href="a.html"><script src="b.js"></script>'),
+             F('b.js', 'b();'),
+           ])
+        .then((files) => {
+          const manifest =
+              JSON.parse(getContents(files, 'fingerprint-manifest.json'));
+          assert.deepEqual(Object.keys(manifest), ['b.js']);
+          assert.isTrue(files.has('a.html'));
+          assert.include(getContents(files, 'b.html'), manifest['b.js']);
+        });
+  });
+
+  test('leaves the service worker alone', () => {
+    return fingerprint(projectFiles().concat([
+             F('service-worker.js', 'self.skipWaiting();'),
+           ]))
+        .then((files) => {
+          const manifest =
+              JSON.parse(getContents(files, 'fingerprint-manifest.json'));
+          assert.notProperty(manifest, 'service-worker.js');
+          assert.isTrue(files.has('service-worker.js'));
+        });
+  });
+
+  test('uses the given hash length, manifest path & filter', () => {
+    return fingerprint(projectFiles(), {
+             hashLength: 4,
+             manifestPath: 'build/hashes.json',
+             include: (url) => url.endsWith('.js'),
+           })
+        .then((files) => {
+          const manifest = JSON.parse(getContents(files, 'build/hashes.json'));
+          assert.deepEqual(Object.keys(manifest), ['src/app.js']);
+          assert.match(manifest['src/app.js'], /^src\/app\.[0-9a-f]{4}\.js$/);
+        });
+  });
+
+  test('rejects the manifest when fingerprinting fails', () => {
+    const config = new ProjectConfig({root: root, entrypoint: 'index.html'});
+    const fingerprinter = new Fingerprinter(config);
+    fingerprinter._fingerprint = () => {
+      throw new Error('failed');
+    };
+    fingerprinter.on('error', () => {});
+    fingerprinter.end();
+    return fingerprinter.manifest.then(
+        () => assert.fail('resolved, expected a rejection'),
+        (error) => assert.equal(error.message, 'failed'));
+  });
+
+});
+
+const F = (filename, contents) => new File({
+  cwd: root,
+  base: root,
+  path: path.resolve(root, filename),
+  contents: new Buffer(contents),
+});
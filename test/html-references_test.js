@@ -0,0 +1,115 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+'use strict';
+
+const assert = require('chai').assert;
+
+const htmlReferences = require('../lib/html-references');
+
+suite('html-references', () => {
+
+  suite('getHtmlReferences()', () => {
+
+    test('finds imports, scripts & stylesheets', () => {
+      const references = htmlReferences.getHtmlReferences(
+          `<link rel="import" href="../dep.html">
+           <link rel="import" type="css" href="/theme.css">
+           <link rel="stylesheet" href="style.css">
+           <script src="app.js"></script>
+           <script src="https://example.com/analytics.js"></script>
+           <dom-module><template>
+             <link rel="stylesheet" href="template.css">
+           </template></dom-module>`,
+          'src/view.html');
+      assert.deepEqual(references.map((r) => [r.type, r.url]), [
+        ['import', 'dep.html'],
+        ['style', 'theme.css'],
+        ['style', 'src/style.css'],
+        ['script', 'src/app.js'],
+        ['style', 'src/template.css'],
+      ]);
+    });
+
+  });
+
+  suite('rewriteHtmlReferences()', () => {
+
+    test('only changes the rewritten attributes', () => {
+      const contents = `<link rel=import href='dep.html'>\n` +
+          `<script async src="/src/app.js#x"></script>\n` +
+          `<link rel="stylesheet" href="other.css">`;
+      const rewritten = htmlReferences.rewriteHtmlReferences(
+          contents, 'src/view.html', (reference) => {
+            return {
+              'src/dep.html': 'lib/dep.html',
+              'src/app.js': 'src/app-1.js',
+            }[reference.url] ||
+                null;
+          });
+      assert.equal(
+          rewritten,
+          `<link rel=import href="../lib/dep.html">\n` +
+              `<script async src="/src/app-1.js#x"></script>\n` +
+              `<link rel="stylesheet" href="other.css">`);
+    });
+
+  });
+
+  suite('setHtmlReferenceAttributes()', () => {
+
+    test('replaces existing attributes and adds the rest', () => {
+      const contents = `<link rel=import href='dep.html'/>\n` +
+          `<script src="app.js" crossorigin="use-credentials"></script>\n` +
+          `<link rel="stylesheet" href="other.css">`;
+      const updated = htmlReferences.setHtmlReferenceAttributes(
+          contents, 'index.html', (reference) => {
+            if (reference.url === 'other.css') {
+              return null;
+            }
+            return {
+              integrity: `sha256-${reference.url}`,
+              crossorigin: 'anonymous',
+            };
+          });
+      assert.equal(
+          updated,
+          `<link rel=import href='dep.html' integrity="sha256-dep.html" ` +
+              `crossorigin="anonymous"/>\n` +
+              `<script src="app.js" crossorigin="anonymous" ` +
+              `integrity="sha256-app.js"></script>\n` +
+              `<link rel="stylesheet" href="other.css">`);
+    });
+
+  });
+
+  suite('sortByReferences()', () => {
+
+    test('orders referenced urls first and groups cycles', () => {
+      const graph = {
+        'index.html': ['a.html', 'c.html', 'missing.html'],
+        'a.html': ['b.html'],
+        'b.html': ['a.html', 'c.html'],
+        'c.html': [],
+      };
+      const components = htmlReferences.sortByReferences(
+          Object.keys(graph), (url) => graph[url]);
+      assert.deepEqual(
+          components.map((c) => c.sort()),
+          [['c.html'], ['a.html', 'b.html'], ['index.html']]);
+    });
+
+  });
+
+});
@@ -0,0 +1,174 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+'use strict';
+
+const assert = require('chai').assert;
+const File = require('vinyl');
+const path = require('path');
+const stream = require('stream');
+
+const minify = require('../lib/minify');
+const PolymerProject = require('../lib/polymer-project').PolymerProject;
+
+const root = path.resolve('/root');
+
+suite('minify', () => {
+
+  suite('minifyHtml()', () => {
+
+    test('keeps templates, bindings & whitespace-sensitive text', () => {
+      const html = minify.minifyHtml(
+          '<!-- @license MIT -->\n<!-- a comment -->\n' +
+          '<dom-module id="x-foo">\n  <template>\n' +
+          '    <div   class$="[[cls]]">  {{ item.name }}  </div>\n' +
+          '    <!-- another comment -->\n' +
+          '    <pre>  a\n  b</pre>\n' +
+          '  </template>\n</dom-module>\n');
+      assert.equal(
+          html,
+          '<!-- @license MIT --><html><head></head><body>' +
+              '<dom-module id="x-foo"> <template> ' +
+              '<div class$="[[cls]]"> {{ item.name }} </div> ' +
+              ' <pre>  a\n  b</pre> </template> </dom-module> </body></html>');
+    });
+
+  });
+
+  suite('minifyJavaScript()', () => {
+
+    test('removes whitespace & comments but keeps names', () => {
+      assert.equal(
+          minify.minifyJavaScript(
+              '/** @license MIT */\n// a comment\nPolymer({\n' +
+              '  is: \'x-foo\',\n  _onTap: function(event) {\n' +
+              '    return event.target;\n  },\n});\n'),
+          '/** @license MIT */\n' +
+              'Polymer({is:\'x-foo\',_onTap:function(event){' +
+              'return event.target;}});');
+    });
+
+  });
+
+  suite('minifyCss()', () => {
+
+    test('removes whitespace & comments but keeps mixins', () => {
+      assert.equal(
+          minify.minifyCss(
+              ':host {\n  /* a comment */\n  --x-foo-mixin: {\n' +
+              '    color: red;\n  };\n}\n.bar {\n  @apply --x-foo-mixin;\n}\n'),
+          ':host{--x-foo-mixin:{color:red;};}.bar{@apply --x-foo-mixin;}');
+    });
+
+  });
+
+  suite('checkMinified()', () => {
+
+    test('rejects contents that the analyzer reports new warnings for', () => {
+      return minify
+          .checkMinified(
+              'src/x-foo.html',
+              '<script>\n  foo();\n</script>',
+              '<script>foo(;</script>')
+          .then(
+              () => assert.fail('resolved, expected a rejection'),
+              (error) => assert.include(error.message, 'Unexpected token'));
+    });
+
+    test('ignores warnings that the original already had', () => {
+      return minify.checkMinified(
+          'src/x-foo.html',
+          '<link rel="import" href="missing.html">\n<script>foo(;</script>',
+          '<link rel="import" href="missing.html"><script>foo(;</script>');
+    });
+
+  });
+
+  suite('Minifier', () => {
+
+    const build = (files, options) => new Promise((resolve, reject) => {
+      const sourceStream = new stream.Readable({objectMode: true});
+      const outputFiles = new Map();
+      sourceStream.pipe(new minify.Minifier(options))
+          .on('data',
+              (file) => {
+                outputFiles.set(path.relative(root, file.path), file);
+              })
+          .on('end', () => resolve(outputFiles))
+          .on('error', reject);
+      files.forEach((f) => sourceStream.push(f));
+      sourceStream.push(null);
+    });
+
+    test('passes through files that it can\'t minify', () => {
+      return build([
+               F('broken.js', 'foo(;\n'),
+               F('app.js', 'foo(  1  );\n'),
+               F('image.svg', '<svg>  </svg>'),
+             ])
+          .then((files) => {
+            assert.equal(files.get('broken.js').contents.toString(), 'foo(;\n');
+            assert.equal(files.get('app.js').contents.toString(), 'foo(1);');
+            assert.equal(
+                files.get('image.svg').contents.toString(), '<svg>  </svg>');
+          });
+    });
+
+    test('leaves types of files that are turned off alone', () => {
+      return build([F('app.js', 'foo(  1  );\n')], {js: false})
+          .then((files) => {
+            assert.equal(
+                files.get('app.js').contents.toString(), 'foo(  1  );\n');
+          });
+    });
+
+    test('minifies split scripts & styles', (done) => {
+      const project = new PolymerProject({
+        root: root,
+        entrypoint: 'index.html',
+      });
+      const sourceStream = new stream.Readable({objectMode: true});
+      sourceStream.pipe(project.splitHtml())
+          .pipe(project.minify())
+          .pipe(project.rejoinHtml())
+          .on('data',
+              (file) => {
+                assert.equal(
+                    file.contents.toString(),
+                    '<html><head></head><body><dom-module id="x-foo">' +
+                        '<template><style>:host{display:block;}</style>' +
+                        '</template><script>Polymer({is:\'x-foo\'});' +
+                        '</script></dom-module></body></html>');
+              })
+          .on('finish', () => done())
+          .on('error', done);
+      sourceStream.push(
+          F('x-foo.html',
+            '<dom-module id="x-foo"><template><style>\n' +
+                '  :host {\n    display: block;\n  }\n</style></template>' +
+                '<script>\n  Polymer({\n    is: \'x-foo\',\n  });\n' +
+                '</script></dom-module>'));
+      sourceStream.push(null);
+    });
+
+  });
+
+});
+
+const F = (filename, contents) => new File({
+  cwd: root,
+  base: root,
+  path: path.resolve(root, filename),
+  contents: new Buffer(contents),
+});
@@ -19,7 +19,9 @@ const path = require('path');
 const stream = require('stream');
 const File = require('vinyl');
 const mergeStream = require('merge-stream');
+const SourceMapConsumer = require('source-map').SourceMapConsumer;
 
+const forkStream = require('../lib/fork-stream').forkStream;
 const PolymerProject = require('../lib/polymer-project').PolymerProject;
 const testProjectRoot = path.resolve(__dirname, 'static/test-project');
 
@@ -132,6 +134,111 @@ suite('PolymerProject', () => {
 
   });
 
+  suite('.createBuild()', () => {
+
+    test('creates a build with its own output directory', () => {
+      const build = defaultProject.createBuild('bundled');
+      assert.equal(build.buildDir, path.join(testProjectRoot, 'build/bundled'));
+      assert.equal(defaultProject.builds.get('bundled'), build);
+      assert.notEqual(build.analyzer, defaultProject.analyzer);
+      assert.notEqual(build.bundler, defaultProject.bundler);
+      assert.throws(() => defaultProject.createBuild('bundled'), /bundled/);
+    });
+
+    test('builds run side by side without sharing split files', (done) => {
+      const buildA = defaultProject.createBuild('a');
+      const buildB = defaultProject.createBuild('b');
+      const splitterA = buildA.splitHtml();
+      const splitterB = buildB.splitHtml();
+      const joinedA = new Map();
+      const joinedB = new Map();
+      const streamA = splitterA.pipe(buildA.rejoinHtml())
+                          .on('data', (f) => joinedA.set(unroot(f.path), f));
+      const streamB = splitterB.pipe(buildB.rejoinHtml())
+                          .on('data', (f) => joinedB.set(unroot(f.path), f));
+      let finished = 0;
+      const onFinish = () => {
+        if (++finished < 2) {
+          return;
+        }
+        for (const joinedFiles of [joinedA, joinedB]) {
+          assert.sameMembers(Array.from(joinedFiles.keys()), [
+            'index.html',
+            'shell.html',
+            'source-dir/my-app.html',
+          ]);
+          assert.include(
+              joinedFiles.get('shell.html').contents.toString(),
+              `console.log('shell');`);
+        }
+        done();
+      };
+      streamA.on('end', onFinish).on('error', done);
+      streamB.on('end', onFinish).on('error', done);
+      defaultProject.sources()
+          .on('data',
+              (f) => {
+                splitterA.write(f.clone({deep: true, contents: true}));
+                splitterB.write(f.clone({deep: true, contents: true}));
+              })
+          .on('end', () => {
+            splitterA.end();
+            splitterB.end();
+          });
+    });
+
+    test('builds share the project analysis', () => {
+      const project = new PolymerProject({
+        root: testProjectRoot,
+        entrypoint: 'index.html',
+        shell: 'shell.html',
+        sources: [
+          'source-dir/**',
+          'index.html',
+          'shell.html',
+        ],
+      });
+      const bundled = project.createBuild('bundled');
+      const unbundled = project.createBuild('unbundled');
+      const analyzed = mergeStream(project.sources(), project.dependencies())
+                           .pipe(project.analyzer);
+      const bundledStream =
+          forkStream(analyzed).pipe(bundled.analyzer).pipe(bundled.bundler);
+      const unbundledStream = forkStream(analyzed).pipe(unbundled.analyzer);
+
+      const collect = (stream) => new Promise((resolve, reject) => {
+        const files = new Map();
+        stream.on('data', (f) => files.set(unroot(f.path), f));
+        stream.on('end', () => resolve(files));
+        stream.on('error', reject);
+      });
+      return Promise
+          .all([
+            collect(bundledStream),
+            collect(unbundledStream),
+            project.analyzer.analyzeDependencies,
+          ])
+          .then((results) => {
+            const bundledFiles = results[0];
+            const unbundledFiles = results[1];
+            assert.include(
+                bundledFiles.get('shell.html').contents.toString(), 'id="dep"');
+            assert.notInclude(
+                unbundledFiles.get('shell.html').contents.toString(),
+                'id="dep"');
+            assert.isTrue(unbundledFiles.has('bower_components/dep.html'));
+            return Promise.all([
+              bundled.analyzer.analyzeDependencies,
+              unbundled.analyzer.analyzeDependencies,
+            ]);
+          })
+          .then((depsIndexes) => {
+            assert.equal(depsIndexes[0], depsIndexes[1]);
+          });
+    });
+
+  });
+
   test('splits and rejoins scripts', (done) => {
     const splitFiles = new Map();
     const joinedFiles = new Map();
@@ -173,6 +280,140 @@ suite('PolymerProject', () => {
         });
   });
 
+  test('splits and rejoins styles', (done) => {
+    const sourceStream = new stream.Readable({
+      objectMode: true,
+    });
+    const root = path.normalize('/foo');
+    const filepath = path.join(root, '/bar/baz.html');
+    const source = '<html><head><style>body { color: red; }</style></head>' +
+        '<body><custom-style><style is="custom-style">:root { --a: b; }' +
+        '</style></custom-style><dom-module id="x-foo"><template>' +
+        '<style>:host { display: block; }</style></template></dom-module>' +
+        '<style type="text/less">@a: b;</style></body></html>';
+    const file = new File({
+      cwd: root,
+      base: root,
+      path: filepath,
+      contents: new Buffer(source),
+    });
+    const splitFiles = new Map();
+
+    sourceStream.pipe(defaultProject.splitHtml())
+        .on('data', (f) => splitFiles.set(path.basename(f.path), f))
+        .pipe(defaultProject.rejoinHtml())
+        .on('data',
+            (file) => {
+              const contents = file.contents.toString();
+              assert.equal(contents, source);
+            })
+        .on('finish',
+            () => {
+              assert.sameMembers(Array.from(splitFiles.keys()), [
+                'baz.html',
+                'baz.html_style_0.css',
+                'baz.html_style_1.css',
+                'baz.html_style_2.css',
+              ]);
+              assert.equal(
+                  splitFiles.get('baz.html_style_2.css').contents.toString(),
+                  ':host { display: block; }');
+              assert.notInclude(
+                  splitFiles.get('baz.html').contents.toString(), 'display');
+              assert.include(
+                  splitFiles.get('baz.html').contents.toString(), '@a: b;');
+              done();
+            })
+        .on('error', (error) => done(error));
+
+    sourceStream.push(file);
+    sourceStream.push(null);
+  });
+
+  test('split and rejoined files have source maps to their sources', (done) => {
+    const sourceStream = new stream.Readable({
+      objectMode: true,
+    });
+    const root = path.normalize('/foo');
+    const filepath = path.join(root, '/bar/baz.html');
+    const source = '<html><head>\n<script>\n  fooify();\n</script>\n' +
+        '</head><body></body></html>';
+    const file = new File({
+      cwd: root,
+      base: root,
+      path: filepath,
+      contents: new Buffer(source),
+    });
+    let scriptFile;
+
+    sourceStream.pipe(defaultProject.splitHtml())
+        .on('data',
+            (file) => {
+              if (file.path.endsWith('.js')) {
+                scriptFile = file;
+              }
+            })
+        .pipe(defaultProject.rejoinHtml())
+        .on('data',
+            (file) => {
+              // `fooify();` is on line 3, column 2 of the original source
+              const scriptMap = new SourceMapConsumer(scriptFile.sourceMap);
+              assert.deepEqual(
+                  scriptMap.originalPositionFor({line: 2, column: 2}), {
+                    source: path.join('bar', 'baz.html'),
+                    line: 3,
+                    column: 2,
+                    name: null,
+                  });
+              const joinedMap = new SourceMapConsumer(file.sourceMap);
+              const joinedLine = file.contents.toString().split('\n').findIndex(
+                  (l) => l.includes('fooify'));
+              assert.deepEqual(
+                  joinedMap.originalPositionFor(
+                      {line: joinedLine + 1, column: 2}),
+                  {
+                    source: path.join('bar', 'baz.html'),
+                    line: 3,
+                    column: 2,
+                    name: null,
+                  });
+            })
+        .on('finish', () => done())
+        .on('error', (error) => done(error));
+
+    sourceStream.push(file);
+    sourceStream.push(null);
+  });
+
+  test('split and rejoined files have no source maps if turned off', (done) => {
+    const project = new PolymerProject(
+        {root: 'test/static/test-project/'}, {sourceMaps: false});
+    const sourceStream = new stream.Readable({
+      objectMode: true,
+    });
+    const root = path.normalize('/foo');
+    const file = new File({
+      cwd: root,
+      base: root,
+      path: path.join(root, '/bar/baz.html'),
+      contents: new Buffer('<script>\n  fooify();\n</script>'),
+    });
+
+    sourceStream.pipe(project.splitHtml())
+        .on('data', (file) => assert.isUndefined(file.sourceMap))
+        .pipe(project.rejoinHtml())
+        .on('data',
+            (file) => {
+              assert.include(file.contents.toString(), 'fooify();');
+              assert.isUndefined(file.sourceMap);
+            })
+        .on('finish', () => done())
+        .on('error', (error) => done(error));
+
+    sourceStream.push(file);
+    sourceStream.push(null);
+  });
+
   test('split/rejoin deals with bad paths', (done) => {
     const sourceStream = new stream.Readable({
       objectMode: true,
@@ -209,4 +450,118 @@ suite('PolymerProject', () => {
     sourceStream.push(null);
   });
 
+  suite('split/rejoin bookkeeping', () => {
+
+    const root = path.normalize('/foo');
+    const htmlPath = path.join(root, 'bar/baz.html');
+    const scriptPath = path.join(root, 'bar/baz.html_script_0.js');
+    const source =
+        '<html><head><script>fooify();</script></head><body></body></html>';
+
+    // Splits an HTML file and rejoins it, passing each split file through
+    // `handleFile` in between, which can push any files it wants.
+    const splitAndRejoin = (handleFile) => new Promise((resolve, reject) => {
+      const sourceStream = new stream.Readable({objectMode: true});
+      const outputFiles = new Map();
+      const handler = new stream.Transform({objectMode: true});
+      handler._transform = (file, _encoding, callback) => {
+        handleFile(file, (f) => handler.push(f));
+        callback();
+      };
+      sourceStream.pipe(defaultProject.splitHtml())
+          .pipe(handler)
+          .pipe(defaultProject.rejoinHtml())
+          .on('data', (f) => outputFiles.set(f.path, f))
+          .on('end', () => resolve(outputFiles))
+          .on('error', reject);
+      sourceStream.push(new File({
+        cwd: root,
+        base: root,
+        path: htmlPath,
+        contents: new Buffer(source),
+      }));
+      sourceStream.push(null);
+    });
+
+    const expectError = (promise) => promise.then(
+        () => assert.fail('rejoined, expected an error'), (error) => error);
+
+    test('fails when a split part never reaches the rejoiner', () => {
+      const rejoined = splitAndRejoin((file, push) => {
+        if (file.path !== scriptPath) {
+          push(file);
+        }
+      });
+      return expectError(rejoined).then((error) => {
+        assert.include(error.message, 'Could not rejoin 1 split HTML file(s)');
+        assert.include(error.message, `${htmlPath}: missing ${scriptPath}`);
+      });
+    });
+
+    test('fails when a split part is in the stream twice', () => {
+      const rejoined = splitAndRejoin((file, push) => {
+        push(file);
+        if (file.path === scriptPath) {
+          push(file.clone());
+        }
+      });
+      return expectError(rejoined).then((error) => {
+        assert.include(
+            error.message,
+            `${scriptPath} (split out of ${htmlPath}) was in the stream ` +
+                'more than once');
+      });
+    });
+
+    test('fails when a parent arrives again after being rejoined', () => {
+      const rejoined = splitAndRejoin((file, push) => {
+        push(file);
+        if (file.path === htmlPath) {
+          push(file.clone());
+        }
+      });
+      return expectError(rejoined).then((error) => {
+        assert.include(
+            error.message,
+            `${htmlPath} reached the rejoiner after its split file had ` +
+                'already been rejoined');
+      });
+    });
+
+    test('rejoins split parts that were renamed', () => {
+      const rejoined = splitAndRejoin((file, push) => {
+        if (file.path === scriptPath) {
+          file.path = path.join(root, 'bar/baz.html_script_0.min.js');
+        }
+        push(file);
+      });
+      return rejoined.then((files) => {
+        assert.deepEqual(Array.from(files.keys()), [htmlPath]);
+        assert.equal(files.get(htmlPath).contents.toString(), source);
+      });
+    });
+
+    test('rejoins split parts replaced by files at registered paths', () => {
+      const newPath = path.join(root, 'bar/baz.html_script_0.compiled.js');
+      defaultProject.addRenamedPath(scriptPath, newPath);
+      const rejoined = splitAndRejoin((file, push) => {
+        if (file.path !== scriptPath) {
+          push(file);
+          return;
+        }
+        push(new File({
+          cwd: root,
+          base: root,
+          path: newPath,
+          contents: file.contents,
+        }));
+      });
+      return rejoined.then((files) => {
+        assert.deepEqual(Array.from(files.keys()), [htmlPath]);
+        assert.equal(files.get(htmlPath).contents.toString(), source);
+      });
+    });
+
+  });
+
 });
@@ -0,0 +1,80 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+'use strict';
+
+const assert = require('chai').assert;
+
+const PushManifestGenerator =
+    require('../lib/push-manifest').PushManifestGenerator;
+const util = require('./util');
+const F = util.F;
+
+suite('PushManifestGenerator', () => {
+
+  test('lists the resources to push for each fragment', () => {
+    const files = [
+      F('index.html',
+        '<link rel="import" href="src/shell.html">' +
+            '<script src="polyfill.js"></script>'),
+      F('polyfill.js', 'polyfill();'),
+      F('src/shell.html',
+        '<link rel="import" href="../framework.html">' +
+            '<link rel="stylesheet" href="shell.css">'),
+      F('src/shell.css', 'body {}'),
+      F('src/view.html',
+        '<link rel="import" href="../framework.html">' +
+            '<script src="view.js"></script>'),
+      F('src/view.js', 'view();'),
+      F('framework.html', '<div id="framework"></div>'),
+    ];
+    const options = {
+      entrypoint: 'index.html',
+      shell: 'src/shell.html',
+      fragments: ['src/view.html'],
+    };
+    let generator;
+    const createStreams = (analyzer) => {
+      generator = new PushManifestGenerator(analyzer);
+      return [generator];
+    };
+    return util.analyzeProject(files, options, createStreams)
+        .then((outputFiles) => {
+          // files pass through untouched
+          assert.isTrue(outputFiles.has('src/view.js'));
+
+          const manifest = JSON.parse(
+              outputFiles.get('push-manifest.json').contents.toString());
+          const shell = {
+            'framework.html': {type: 'document', weight: 1},
+            'src/shell.css': {type: 'style', weight: 1},
+          };
+          assert.deepEqual(manifest['src/shell.html'], shell);
+          assert.deepEqual(manifest['src/view.html'], {
+            'framework.html': {type: 'document', weight: 1},
+            'src/view.js': {type: 'script', weight: 1},
+          });
+          assert.deepEqual(
+              manifest['index.html'],
+              Object.assign(
+                  {
+                    'src/shell.html': {type: 'document', weight: 1},
+                    'polyfill.js': {type: 'script', weight: 1},
+                  },
+                  shell));
+          return generator.manifest.then((m) => assert.deepEqual(m, manifest));
+        });
+  });
+
+});
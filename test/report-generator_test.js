@@ -0,0 +1,72 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+'use strict';
+
+const assert = require('chai').assert;
+const path = require('path');
+
+const ReportGenerator = require('../lib/report-generator').ReportGenerator;
+
+const root = path.resolve('/root');
+
+suite('ReportGenerator', () => {
+
+  class TestReportGenerator extends ReportGenerator {
+    constructor(createReport) {
+      super({config: {root: root}});
+      this._createReport = createReport;
+    }
+
+    _getReportFile(report) {
+      return {path: 'report.json', contents: JSON.stringify(report)};
+    }
+  }
+
+  const run = (generator) => new Promise((resolve, reject) => {
+    const files = [];
+    generator.on('data', (file) => files.push(file))
+        .on('end', () => resolve(files))
+        .on('error', reject);
+    generator.end();
+  });
+
+  test('adds the report to the stream and resolves with it', () => {
+    const generator =
+        new TestReportGenerator(() => Promise.resolve({used: true}));
+    return run(generator).then((files) => {
+      assert.equal(files.length, 1);
+      assert.equal(files[0].path, path.resolve(root, 'report.json'));
+      assert.equal(files[0].contents.toString(), '{"used":true}');
+      return generator.report.then(
+          (report) => assert.deepEqual(report, {used: true}));
+    });
+  });
+
+  test('fails the stream and rejects the report on failure', () => {
+    const generator =
+        new TestReportGenerator(() => Promise.reject(new Error('failed')));
+    return run(generator)
+        .then(
+            () => {
+              throw new Error('The stream should have failed');
+            },
+            (error) => assert.equal(error.message, 'failed'))
+        .then(() => generator.report)
+        .then(() => {
+          throw new Error('The report should have been rejected');
+        }, (error) => assert.equal(error.message, 'failed'));
+  });
+
+});
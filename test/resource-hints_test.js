@@ -0,0 +1,179 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+'use strict';
+
+const assert = require('chai').assert;
+const dom5 = require('dom5');
+const File = require('vinyl');
+const parse5 = require('parse5');
+const path = require('path');
+const stream = require('stream');
+const mergeStream = require('merge-stream');
+const ProjectConfig = require('polymer-project-config').ProjectConfig;
+
+const StreamAnalyzer = require('../lib/analyzer').StreamAnalyzer;
+const Bundler = require('../lib/bundle').Bundler;
+const resourceHints = require('../lib/resource-hints');
+
+const root = path.resolve('/root');
+
+suite('resource-hints', () => {
+
+  suite('insertLinks()', () => {
+
+    test('inserts links after meta tags and before other resources', () => {
+      const contents = resourceHints.insertLinks(
+          '<!doctype html>\n<html><head>\n  <meta charset="utf-8">\n' +
+              '  <script src="app.js"></script>\n</head></html>',
+          [resourceHints.createLink('preload', 'shell.js')]);
+      assert.equal(
+          contents,
+          '<!doctype html>\n<html><head>\n  <meta charset="utf-8">\n' +
+              '  <link rel="preload" href="shell.js" as="script">\n' +
+              '<script src="app.js"></script>\n</head></html>');
+    });
+
+  });
+
+  suite('ResourceHintInjector', () => {
+
+    const files = () =>
+        [F('index.html',
+           '<html><head><link rel="import" href="src/shell.html"></head></html>'),
+         F('src/shell.html', '<link rel="import" href="../framework.html">'),
+         F('src/view.html',
+           '<link rel="import" href="../framework.html">' +
+               '<script src="view.js"></script>'),
+         F('src/view.js', 'view();'),
+         F('framework.html', '<div id="framework"></div>'),
+    ];
+
+    const build = (bundled) => {
+      const sourceFiles = files();
+      const config = new ProjectConfig({
+        root: root,
+        entrypoint: 'index.html',
+        shell: 'src/shell.html',
+        fragments: ['src/view.html'],
+        sources: sourceFiles.map((f) => f.path),
+      });
+      const analyzer = new StreamAnalyzer(config);
+      const bundler = new Bundler(config, analyzer);
+      const injector = new resourceHints.ResourceHintInjector(
+          analyzer, bundler, {bundled: bundled});
+      const sourceStream = new stream.Readable({objectMode: true});
+      let outputStream =
+          mergeStream(sourceStream, analyzer.dependencies).pipe(analyzer);
+      if (bundled) {
+        outputStream = outputStream.pipe(bundler);
+      }
+      outputStream = outputStream.pipe(injector);
+      sourceFiles.forEach((f) => sourceStream.push(f));
+      sourceStream.push(null);
+
+      const outputFiles = new Map();
+      return new Promise((resolve, reject) => {
+        outputStream.on('data', (file) => {
+          outputFiles.set(
+              path.relative(root, file.path),
+              parse5.parse(file.contents.toString()));
+        });
+        outputStream.on('end', () => resolve(outputFiles));
+        outputStream.on('error', reject);
+      });
+    };
+
+    const getLinks = (doc, rel) =>
+        dom5.queryAll(doc, dom5.predicates.hasAttrValue('rel', rel))
+            .map(
+                (link) =>
+                    [dom5.getAttribute(link, 'href'),
+                     dom5.getAttribute(link, 'as'),
+    ]);
+
+    test('prefetches lazy fragments from the shell', () => {
+      return build(false).then((files) => {
+        // HTML imports can't be preloaded, and the shell's aren't prefetched.
+        assert.deepEqual(getLinks(files.get('index.html'), 'preload'), []);
+        assert.deepEqual(getLinks(files.get('index.html'), 'prefetch'), []);
+        assert.deepEqual(getLinks(files.get('src/shell.html'), 'prefetch'), [
+          ['view.html', null],
+          ['view.js', 'script'],
+        ]);
+      });
+    });
+
+    test('hints bundles in bundled builds', () => {
+      return build(true).then((files) => {
+        assert.deepEqual(getLinks(files.get('index.html'), 'prefetch'), []);
+        assert.deepEqual(getLinks(files.get('src/shell.html'), 'prefetch'), [
+          ['view.html', null],
+        ]);
+      });
+    });
+
+    test('preloads scripts & styles', () => {
+      const files = [
+        F('index.html',
+          '<html><head><link rel="import" href="shell.html"></head></html>'),
+        F('shell.html',
+          '<link rel="stylesheet" href="shell.css">' +
+              '<script src="shell.js"></script>'),
+        F('shell.js', 'shell();'),
+        F('shell.css', 'body {}'),
+      ];
+      const config = new ProjectConfig({
+        root: root,
+        entrypoint: 'index.html',
+        shell: 'shell.html',
+        sources: files.map((f) => f.path),
+      });
+      const analyzer = new StreamAnalyzer(config);
+      const injector = new resourceHints.ResourceHintInjector(analyzer, null);
+      const sourceStream = new stream.Readable({objectMode: true});
+      const outputStream = mergeStream(sourceStream, analyzer.dependencies)
+                               .pipe(analyzer)
+                               .pipe(injector);
+      files.forEach((f) => sourceStream.push(f));
+      sourceStream.push(null);
+      return new Promise((resolve, reject) => {
+               let index;
+               outputStream.on('data', (file) => {
+                 if (file.path === path.resolve(root, 'index.html')) {
+                   index = parse5.parse(file.contents.toString());
+                 }
+               });
+               outputStream.on('end', () => resolve(index));
+               outputStream.on('error', reject);
+             })
+          .then((index) => {
+            assert.deepEqual(getLinks(index, 'preload'), [
+              ['shell.js', 'script'],
+              ['shell.css', 'style'],
+            ]);
+            assert.deepEqual(getLinks(index, 'prefetch'), []);
+          });
+    });
+
+  });
+
+});
+
+const F = (filename, contents) => new File({
+  cwd: root,
+  base: root,
+  path: path.resolve(root, filename),
+  contents: new Buffer(contents),
+});
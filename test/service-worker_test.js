@@ -15,8 +15,10 @@
 'use strict';
 
 const assert = require('chai').assert;
+const crypto = require('crypto');
 const fs = require('fs');
 const path = require('path');
+const stream = require('stream');
 const temp = require('temp').track();
 const vfs = require('vinyl-fs');
 const mergeStream = require('merge-stream');
@@ -168,6 +170,57 @@ suite('service-worker', () => {
               });
         });
 
+    test(
+        'should precache fingerprinted files when fingerprints are provided',
+        () => {
+          fs.renameSync(
+              path.join(testBuildRoot, 'shell.html'),
+              path.join(testBuildRoot, 'shell.1a2b3c4d.html'));
+          return serviceWorker
+              .generateServiceWorker({
+                project: defaultProject,
+                buildRoot: testBuildRoot,
+                bundled: true,
+                fingerprints: {'shell.html': 'shell.1a2b3c4d.html'},
+              })
+              .then((swFile) => {
+                const fileContents = swFile.toString();
+                assert.include(fileContents, path.join('"/index.html"'));
+                assert.include(
+                    fileContents, path.join('"/shell.1a2b3c4d.html"'));
+                assert.notInclude(fileContents, path.join('"/shell.html"'));
+              });
+        });
+
+    test('should prefix precached urls with the project\'s basePath', () => {
+      const project = new PolymerProject(
+          {
+            root: path.resolve(__dirname, 'static/test-project'),
+            entrypoint: 'index.html',
+            shell: 'shell.html',
+            sources: ['source-dir/**'],
+          },
+          {basePath: '/tenant-x/app'});
+      return new Promise((resolve, reject) => {
+               mergeStream(project.sources(), project.dependencies())
+                   .pipe(project.analyzer)
+                   .on('data', () => {})
+                   .on('end', resolve)
+                   .on('error', reject);
+             })
+          .then(() => serviceWorker.generateServiceWorker({
+            project: project,
+            buildRoot: testBuildRoot,
+            bundled: true,
+          }))
+          .then((swFile) => {
+            const fileContents = swFile.toString();
+            assert.include(fileContents, '"/tenant-x/app/index.html"');
+            assert.include(fileContents, '"/tenant-x/app/shell.html"');
+            assert.notInclude(fileContents, '"/index.html"');
+          });
+    });
+
     test('should add provided staticFileGlobs paths to the final list', () => {
       return serviceWorker
           .generateServiceWorker({
@@ -190,6 +243,378 @@ suite('service-worker', () => {
           });
     });
 
+    test('does not precache compressed variants of files', () => {
+      const depPath = path.join(testBuildRoot, 'bower_components/dep.html');
+      fs.writeFileSync(`${depPath}.gz`, 'compressed');
+      fs.writeFileSync(`${depPath}.br`, 'compressed');
+      fs.writeFileSync(path.join(testBuildRoot, 'archive.gz'), 'archive');
+      return serviceWorker
+          .generateServiceWorker({
+            project: defaultProject,
+            buildRoot: testBuildRoot,
+            swPrecacheConfig: {
+              staticFileGlobs: ['/bower_components/*', '/*.gz'],
+            },
+          })
+          .then((swFile) => {
+            const fileContents = swFile.toString();
+            assert.include(fileContents, '"/bower_components/dep.html"');
+            assert.notInclude(fileContents, 'dep.html.gz');
+            assert.notInclude(fileContents, 'dep.html.br');
+            // Not a compressed variant of another file.
+            assert.include(fileContents, '"/archive.gz"');
+          });
+    });
+
+    suite('appShell', () => {
+
+      let project;
+
+      setup(() => {
+        project = new PolymerProject({
+          root: path.resolve(__dirname, 'static/test-project'),
+          entrypoint: 'index.html',
+          shell: 'shell.html',
+          fragments: ['source-dir/my-app.html'],
+          sources: ['source-dir/**'],
+        });
+        return new Promise((resolve, reject) => {
+          mergeStream(project.sources(), project.dependencies())
+              .pipe(project.analyzer)
+              .on('data', () => {})
+              .on('end', resolve)
+              .on('error', reject);
+        });
+      });
+
+      const getPrecachedUrls = (fileContents) => {
+        const match = /var precacheConfig = (\[.*?\]);/.exec(fileContents);
+        return JSON.parse(match[1]).map((entry) => entry[0]);
+      };
+
+      test(
+          'falls back to the entrypoint & caches lazy fragments at runtime',
+          () => {
+            return serviceWorker
+                .generateServiceWorker({
+                  project: project,
+                  buildRoot: testBuildRoot,
+                  appShell: true,
+                })
+                .then((swFile) => {
+                  const fileContents = swFile.toString();
+                  assert.sameMembers(getPrecachedUrls(fileContents), [
+                    '/index.html',
+                    '/shell.html',
+                    '/bower_components/dep.html',
+                    '/bower_components/loads-external-dependencies.html',
+                  ]);
+                  assert.include(
+                      fileContents, 'var navigateFallback = \'/index.html\';');
+                  assert.include(
+                      fileContents,
+                      JSON.stringify([/^\/(?:[^\/]*\/)*[^\/.]*$/.source]));
+                  assert.include(
+                      fileContents,
+                      'toolbox.router.get(/(?:\\/source-dir\\/my-app\\.html)$/, ' +
+                          'toolbox.fastest');
+                });
+          });
+
+      test('can precache only the shell & its dependencies', () => {
+        return serviceWorker
+            .generateServiceWorker({
+              project: project,
+              buildRoot: testBuildRoot,
+              bundled: true,
+              appShell: {
+                precacheShellOnly: true,
+                runtimeCacheHandler: 'networkFirst',
+              },
+              swPrecacheConfig: {navigateFallback: '/app.html'},
+            })
+            .then((swFile) => {
+              const fileContents = swFile.toString();
+              assert.sameMembers(
+                  getPrecachedUrls(fileContents),
+                  ['/index.html', '/shell.html']);
+              // options set by the user win
+              assert.include(
+                  fileContents, 'var navigateFallback = \'/app.html\';');
+              assert.include(fileContents, 'toolbox.networkFirst');
+              assert.include(fileContents, '\\/shared-bundle\\.html');
+            });
+      });
+
+    });
+
+  });
+
+  suite('ServiceWorkerGenerator', () => {
+
+    const build = (project, options, rewrite) =>
+        new Promise((resolve, reject) => {
+          const files = new Map();
+          mergeStream(project.sources(), project.dependencies())
+              .pipe(project.analyzer)
+              .pipe(new stream.Transform({
+                objectMode: true,
+                transform: (file, _encoding, callback) => {
+                  callback(null, rewrite ? rewrite(file) : file);
+                },
+              }))
+              .pipe(project.serviceWorker(options))
+              .on('data',
+                  (file) => files.set(
+                      path.relative(project.config.root, file.path), file))
+              .on('end', () => resolve(files))
+              .on('error', reject);
+        });
+
+    const getPrecacheConfig = (contents) =>
+        JSON.parse(/var precacheConfig = (\[.*?\]);/.exec(contents)[1]);
+
+    test('precaches files by their contents in the stream', () => {
+      const project = new PolymerProject({
+        root: path.resolve(__dirname, 'static/test-project'),
+        entrypoint: 'index.html',
+        shell: 'shell.html',
+        sources: ['source-dir/**'],
+      });
+      const rewrite = (file) => {
+        if (path.basename(file.path) === 'shell.html') {
+          file = file.clone();
+          file.contents = new Buffer('<div id="rewritten"></div>');
+        }
+        return file;
+      };
+      return build(
+                 project,
+                 {swPrecacheConfig: {staticFileGlobs: ['/source-dir/*']}},
+                 rewrite)
+          .then((files) => {
+            assert.isTrue(files.has('index.html'));
+            const precacheConfig = getPrecacheConfig(
+                files.get('service-worker.js').contents.toString());
+            assert.deepEqual(precacheConfig.map((entry) => entry[0]), [
+              '/bower_components/dep.html',
+              '/bower_components/loads-external-dependencies.html',
+              '/index.html',
+              '/shell.html',
+              '/source-dir/my-app.html',
+            ]);
+            // sw-precache hashes the hashes of a url's dependencies.
+            const md5 = (data) =>
+                crypto.createHash('md5').update(data).digest('hex');
+            const shellHash = md5(md5('<div id="rewritten"></div>'));
+            assert.deepEqual(precacheConfig[3], ['/shell.html', shellHash]);
+          });
+    });
+
+    test('does not precache compressed variants of files', (done) => {
+      const project = new PolymerProject({
+        root: path.resolve(__dirname, 'static/test-project'),
+        entrypoint: 'index.html',
+        shell: 'shell.html',
+        sources: ['source-dir/**'],
+      });
+      const files = new Map();
+      mergeStream(project.sources(), project.dependencies())
+          .pipe(project.analyzer)
+          .pipe(project.compress({encodings: ['gzip'], threshold: 0}))
+          .pipe(project.serviceWorker(
+              {swPrecacheConfig: {staticFileGlobs: ['/**']}}))
+          .on('data',
+              (file) => files.set(
+                  path.relative(project.config.root, file.path), file))
+          .on('end',
+              () => {
+                assert.isTrue(files.has('shell.html.gz'));
+                const precachedUrls =
+                    getPrecacheConfig(
+                        files.get('service-worker.js').contents.toString())
+                        .map((entry) => entry[0]);
+                assert.include(precachedUrls, '/shell.html');
+                assert.notInclude(precachedUrls, '/shell.html.gz');
+                done();
+              })
+          .on('error', done);
+    });
+
+    test('accepts deprecated options', () => {
+      const project = new PolymerProject({
+        root: path.resolve(__dirname, 'static/test-project'),
+        entrypoint: 'index.html',
+        shell: 'shell.html',
+        sources: ['source-dir/**'],
+      });
+      return build(project, {
+               serviceWorkerPath: 'sw.js',
+               swConfig: {staticFileGlobs: ['/source-dir/*']},
+             })
+          .then((files) => {
+            const precachedUrls =
+                getPrecacheConfig(files.get('sw.js').contents.toString())
+                    .map((entry) => entry[0]);
+            assert.include(precachedUrls, '/source-dir/my-app.html');
+          });
+    });
+
+    test(
+        'precaches fingerprinted files when run after the fingerprinter',
+        () => {
+          const project = new PolymerProject({
+            root: path.resolve(__dirname, 'static/test-project'),
+            entrypoint: 'index.html',
+            shell: 'shell.html',
+            sources: ['source-dir/**'],
+          });
+          const fingerprinter = project.fingerprint();
+          const files = new Map();
+          return new Promise((resolve, reject) => {
+                   mergeStream(project.sources(), project.dependencies())
+                       .pipe(project.analyzer)
+                       .pipe(fingerprinter)
+                       .pipe(project.serviceWorker(
+                           {fingerprints: fingerprinter.manifest}))
+                       .on('data',
+                           (file) => files.set(
+                               path.relative(project.config.root, file.path),
+                               file))
+                       .on('end', resolve)
+                       .on('error', reject);
+                 })
+              .then(() => fingerprinter.manifest)
+              .then((fingerprints) => {
+                assert.isTrue(files.has('service-worker.js'));
+                const precachedUrls =
+                    getPrecacheConfig(
+                        files.get('service-worker.js').contents.toString())
+                        .map((entry) => entry[0]);
+                assert.include(precachedUrls, `/${fingerprints['shell.html']}`);
+                assert.notInclude(precachedUrls, '/shell.html');
+                for (const url of precachedUrls) {
+                  assert.isTrue(files.has(url.substring(1)), url);
+                }
+              });
+        });
+
+    test('uses the given path & fingerprint manifest', () => {
+      const project = new PolymerProject(
+          {
+            root: path.resolve(__dirname, 'static/test-project'),
+            entrypoint: 'index.html',
+            shell: 'shell.html',
+            sources: ['source-dir/**'],
+          },
+          {basePath: '/tenant-x/'});
+      const rewrite = (file) => {
+        if (path.basename(file.path) === 'shell.html') {
+          file = file.clone();
+          file.path = path.join(path.dirname(file.path), 'shell.1a2b3c4d.html');
+        }
+        return file;
+      };
+      return build(
+                 project,
+                 {
+                   path: 'sw.js',
+                   bundled: true,
+                   fingerprints:
+                       Promise.resolve({'shell.html': 'shell.1a2b3c4d.html'}),
+                 },
+                 rewrite)
+          .then((files) => {
+            const precacheConfig =
+                getPrecacheConfig(files.get('sw.js').contents.toString());
+            assert.deepEqual(
+                precacheConfig.map((entry) => entry[0]),
+                ['/tenant-x/index.html', '/tenant-x/shell.1a2b3c4d.html']);
+          });
+    });
+
+  });
+
+  suite('generatePrecacheManifest()', () => {
+
+    test('should list unbundled precached files with hashes & sizes', () => {
+      return serviceWorker
+          .generatePrecacheManifest({
+            project: defaultProject,
+            buildRoot: testBuildRoot,
+          })
+          .then((manifest) => {
+            const urls = manifest.map((entry) => entry.url);
+            assert.include(urls, '/index.html');
+            assert.include(urls, '/shell.html');
+            assert.include(urls, '/bower_components/dep.html');
+            assert.notInclude(urls, '/source-dir/my-app.html');
+            const contents =
+                fs.readFileSync(path.join(testBuildRoot, 'shell.html'));
+            const shell = manifest.find((entry) => entry.url === '/shell.html');
+            assert.deepEqual(shell, {
+              url: '/shell.html',
+              revision: crypto.createHash('md5').update(contents).digest('hex'),
+              size: contents.length,
+            });
+          });
+    });
+
+    test('should list bundled & fingerprinted files', () => {
+      fs.renameSync(
+          path.join(testBuildRoot, 'shell.html'),
+          path.join(testBuildRoot, 'shell.1a2b3c4d.html'));
+      return serviceWorker
+          .generatePrecacheManifest({
+            project: defaultProject,
+            buildRoot: testBuildRoot,
+            bundled: true,
+            fingerprints: {'shell.html': 'shell.1a2b3c4d.html'},
+          })
+          .then((manifest) => {
+            assert.deepEqual(
+                manifest.map((entry) => entry.url),
+                ['/index.html', '/shell.1a2b3c4d.html']);
+          });
+    });
+
+    test('should list files matching staticFileGlobs', () => {
+      const depPath = path.join(testBuildRoot, 'bower_components/dep.html');
+      fs.writeFileSync(`${depPath}.gz`, 'compressed');
+      return serviceWorker
+          .generatePrecacheManifest({
+            project: defaultProject,
+            buildRoot: testBuildRoot,
+            bundled: true,
+            swConfig: {staticFileGlobs: ['/bower_components/dep.*']},
+          })
+          .then((manifest) => {
+            assert.deepEqual(
+                manifest.map((entry) => entry.url),
+                ['/bower_components/dep.html', '/index.html', '/shell.html']);
+          });
+    });
+
+  });
+
+  suite('addPrecacheManifest()', () => {
+
+    test('should write the precache manifest to file system', () => {
+      return serviceWorker
+          .addPrecacheManifest({
+            project: defaultProject,
+            buildRoot: testBuildRoot,
+            bundled: true,
+          })
+          .then(() => {
+            const manifest = JSON.parse(fs.readFileSync(
+                path.join(testBuildRoot, 'precache-manifest.json'), 'utf-8'));
+            assert.deepEqual(
+                manifest.map((entry) => entry.url),
+                ['/index.html', '/shell.html']);
+          });
+    });
+
   });
 
   suite('addServiceWorker()', () => {
@@ -0,0 +1,124 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+'use strict';
+
+const assert = require('chai').assert;
+const SourceMapConsumer = require('source-map').SourceMapConsumer;
+const SourceMapGenerator = require('source-map').SourceMapGenerator;
+
+const sourceMaps = require('../lib/source-maps');
+
+suite('source-maps', () => {
+
+  suite('addSourceSpan()', () => {
+
+    test('maps each token of a span back to where it was taken from', () => {
+      const generator = new SourceMapGenerator({file: 'out.js'});
+      sourceMaps.addSourceSpan(
+          generator,
+          {
+            contents: 'foo();\nbar();',
+            line: 3,
+            column: 10,
+            sourcePath: 'in.html',
+          },
+          1,
+          0);
+      const consumer = new SourceMapConsumer(generator.toJSON());
+      assert.deepEqual(
+          consumer.originalPositionFor({line: 1, column: 0}),
+          {source: 'in.html', line: 3, column: 10, name: null});
+      assert.deepEqual(
+          consumer.originalPositionFor({line: 2, column: 0}),
+          {source: 'in.html', line: 4, column: 0, name: null});
+      assert.deepEqual(
+          consumer.originalPositionFor({line: 2, column: 3}),
+          {source: 'in.html', line: 4, column: 3, name: null});
+    });
+
+    test('traces mappings through the source map of the span', () => {
+      const inner = new SourceMapGenerator({file: 'in.js'});
+      inner.addMapping({
+        source: 'original.html',
+        original: {line: 7, column: 2},
+        generated: {line: 1, column: 4},
+      });
+      const generator = new SourceMapGenerator({file: 'out.html'});
+      sourceMaps.addSourceSpan(
+          generator,
+          {
+            contents: 'foo(bar());',
+            line: 1,
+            column: 0,
+            sourcePath: 'in.js',
+            sourceMap: inner.toJSON(),
+          },
+          5,
+          8);
+      const consumer = new SourceMapConsumer(generator.toJSON());
+      assert.deepEqual(
+          consumer.originalPositionFor({line: 5, column: 12}),
+          {source: 'original.html', line: 7, column: 2, name: null});
+    });
+
+  });
+
+  suite('createInlinedSourceMap()', () => {
+
+    test('maps inline scripts matched by their contents', () => {
+      const contents = '<html><head></head><body>\n' +
+          '<script>\nfoo();\n</script></body></html>';
+      const spans = [{
+        contents: '\nfoo();\n',
+        line: 10,
+        column: 0,
+        sourcePath: 'foo.js',
+      }];
+      const map =
+          sourceMaps.createInlinedSourceMap('bundle.html', contents, spans);
+      const consumer = new SourceMapConsumer(map);
+      assert.deepEqual(
+          consumer.originalPositionFor({line: 3, column: 0}),
+          {source: 'foo.js', line: 11, column: 0, name: null});
+    });
+
+    test('maps identical inline styles to their own sources in order', () => {
+      const contents = '<html><head></head><body>\n' +
+          '<style>a {}</style>\n' +
+          '<style>a {}</style></body></html>';
+      const spans = [
+        {contents: 'a {}', line: 5, column: 7, sourcePath: 'foo.html'},
+        {contents: 'a {}', line: 8, column: 7, sourcePath: 'bar.html'},
+      ];
+      const map =
+          sourceMaps.createInlinedSourceMap('bundle.html', contents, spans);
+      const consumer = new SourceMapConsumer(map);
+      assert.deepEqual(
+          consumer.originalPositionFor({line: 2, column: 7}),
+          {source: 'foo.html', line: 5, column: 7, name: null});
+      assert.deepEqual(
+          consumer.originalPositionFor({line: 3, column: 7}),
+          {source: 'bar.html', line: 8, column: 7, name: null});
+    });
+
+    test('returns null when nothing could be mapped', () => {
+      const map = sourceMaps.createInlinedSourceMap(
+          'bundle.html', '<script>foo();</script>', []);
+      assert.isNull(map);
+    });
+
+  });
+
+});
@@ -0,0 +1,170 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+
+'use strict';
+
+const assert = require('chai').assert;
+const crypto = require('crypto');
+const File = require('vinyl');
+const path = require('path');
+const stream = require('stream');
+const ProjectConfig = require('polymer-project-config').ProjectConfig;
+
+const sri = require('../lib/subresource-integrity');
+
+const root = path.resolve('/root');
+
+suite('SubresourceIntegrityInjector', () => {
+
+  const addIntegrity = (files, options) => new Promise((resolve, reject) => {
+    const config = new ProjectConfig({
+      root: root,
+      entrypoint: 'index.html',
+      sources: files.map((f) => f.path),
+    });
+    const injector = new sri.SubresourceIntegrityInjector(config, options);
+    const sourceStream = new stream.Readable({objectMode: true});
+    const outputFiles = new Map();
+    sourceStream.pipe(injector)
+        .on('data',
+            (file) => {
+              outputFiles.set(path.relative(root, file.path), file);
+            })
+        .on('end', () => resolve(outputFiles))
+        .on('error', reject);
+    files.forEach((f) => sourceStream.push(f));
+    sourceStream.push(null);
+  });
+
+  const getContents = (files, url) => files.get(url).contents.toString();
+
+  const hash = (algorithm, contents) => `${algorithm}-` +
+      crypto.createHash(algorithm).update(contents).digest('base64');
+
+  test('getIntegrity()', () => {
+    assert.equal(
+        sri.getIntegrity(new Buffer('app();')), hash('sha384', 'app();'));
+    assert.equal(
+        sri.getIntegrity(new Buffer('app();'), 'sha256'),
+        hash('sha256', 'app();'));
+  });
+
+  test('hashes files after their own references are updated', () => {
+    return addIntegrity([
+             F('index.html', '<link rel="import" href="src/app.html">'),
+             F('src/app.html',
+               '<link rel="stylesheet" href="app.css">\n' +
+                   '<script src="/src/app.js?v=1"></script>\n' +
+                   '<script src="missing.js"></script>'),
+             F('src/app.js', 'app();'),
+             F('src/app.css', 'body {}'),
+           ])
+        .then((files) => {
+          const app = getContents(files, 'src/app.html');
+          assert.equal(
+              app,
+              `<link rel="stylesheet" href="app.css" ` +
+                  `integrity="${hash('sha384', 'body {}')}" ` +
+                  `crossorigin="anonymous">\n` +
+                  `<script src="/src/app.js?v=1" ` +
+                  `integrity="${hash('sha384', 'app();')}" ` +
+                  `crossorigin="anonymous"></script>\n` +
+                  // not in the stream, so it can't be hashed
+                  `<script src="missing.js"></script>`);
+          assert.equal(
+              getContents(files, 'index.html'),
+              `<link rel="import" href="src/app.html" ` +
+                  `integrity="${hash('sha384', app)}" ` +
+                  `crossorigin="anonymous">`);
+        });
+  });
+
+  test('uses the given algorithm, crossorigin & filter', () => {
+    return addIntegrity(
+               [
+                 F('index.html',
+                   '<script src="a.js"></script><script src="b.js"></script>'),
+                 F('a.js', 'a();'),
+                 F('b.js', 'b();'),
+               ],
+               {
+                 algorithm: 'sha512',
+                 crossorigin: 'use-credentials',
+                 include: (url) => url !== 'b.js',
+               })
+        .then((files) => {
+          assert.equal(
+              getContents(files, 'index.html'),
+              `<script src="a.js" integrity="${hash('sha512', 'a();')}" ` +
+                  `crossorigin="use-credentials"></script>` +
+                  `<script src="b.js"></script>`);
+        });
+  });
+
+  test('leaves circular references alone', () => {
+    const contents = {
+      'a.html': '<link rel="import" href="b.html">',
+      'b.html': '<link rel="import" href="a.html">',
+    };
+    return addIntegrity([
+             F('index.html', '<link rel="import" href="a.html">'),
+             F('a.html', contents['a.html']),
+             F('b.html', contents['b.html']),
+           ])
+        .then((files) => {
+          assert.equal(getContents(files, 'a.html'), contents['a.html']);
+          assert.equal(getContents(files, 'b.html'), contents['b.html']);
+          assert.include(
+              getContents(files, 'index.html'),
+              `integrity="${hash('sha384', contents['a.html'])}"`);
+        });
+  });
+
+  test('adds integrity to references to files on the cdn', () => {
+    return addIntegrity(
+               [
+                 F('index.html',
+                   '<script src="https://cdn.example.com/app/app.js">' +
+                       '</script>\n' +
+                       '<link rel="stylesheet" ' +
+                       'href="//cdn.example.com/app/app.css?v=2">\n' +
+                       '<script src="https://other.example.com/app.js">' +
+                       '</script>'),
+                 F('app.js', 'app();'),
+                 F('app.css', 'body {}'),
+               ],
+               {cdnBase: 'https://cdn.example.com/app'})
+        .then((files) => {
+          assert.equal(
+              getContents(files, 'index.html'),
+              '<script src="https://cdn.example.com/app/app.js" ' +
+                  `integrity="${hash('sha384', 'app();')}" ` +
+                  'crossorigin="anonymous"></script>\n' +
+                  '<link rel="stylesheet" ' +
+                  'href="//cdn.example.com/app/app.css?v=2" ' +
+                  `integrity="${hash('sha384', 'body {}')}" ` +
+                  'crossorigin="anonymous">\n' +
+                  '<script src="https://other.example.com/app.js"></script>');
+        });
+  });
+
+});
+
+const F = (filename, contents) => new File({
+  cwd: root,
+  base: root,
+  path: path.resolve(root, filename),
+  contents: new Buffer(contents),
+});
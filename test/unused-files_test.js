@@ -0,0 +1,91 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+
+'use strict';
+
+const assert = require('chai').assert;
+const path = require('path');
+const mergeStream = require('merge-stream');
+
+const PolymerProject = require('../lib/polymer-project').PolymerProject;
+const UnusedFilesReporter = require('../lib/unused-files').UnusedFilesReporter;
+const util = require('./util');
+const F = util.F;
+
+const testProjectRoot = path.resolve(__dirname, 'static/test-project');
+
+suite('UnusedFilesReporter', () => {
+
+  test('reports source files that nothing uses', () => {
+    const files = [
+      F('index.html', '<link rel="import" href="src/shell.html">'),
+      F('src/shell.html', '<script src="shell.js"></script>'),
+      F('src/shell.js', 'shell();'),
+      F('src/old-element.html', '<script src="old-element.js"></script>'),
+      F('src/old-element.js', 'old();'),
+      F('images/logo.png', ''),
+    ];
+    const options = {entrypoint: 'index.html', shell: 'src/shell.html'};
+    let reporter;
+    const createStreams = (analyzer) => {
+      reporter =
+          new UnusedFilesReporter(analyzer, {reportPath: 'unused-files.json'});
+      return [reporter];
+    };
+    return util.analyzeProject(files, options, createStreams)
+        .then((outputFiles) => {
+          assert.isTrue(outputFiles.has('src/old-element.html'));
+          const report = JSON.parse(
+              outputFiles.get('unused-files.json').contents.toString());
+          assert.deepEqual(
+              report.sources, ['src/old-element.html', 'src/old-element.js']);
+          assert.deepEqual(report.dependencies, []);
+          assert.deepEqual(report.extraDependencies, []);
+          return reporter.report.then((r) => assert.deepEqual(r, report));
+        });
+  });
+
+  test('reports unused dependencies and redundant extraDependencies', () => {
+    const project = new PolymerProject({
+      root: testProjectRoot,
+      entrypoint: 'index.html',
+      shell: 'shell.html',
+      sources: [
+        'source-dir/**',
+        'index.html',
+        'shell.html',
+      ],
+      extraDependencies: [
+        'bower_components/dep.html',
+      ],
+    });
+    const reporter = project.reportUnusedFiles();
+    const outputStream = mergeStream(project.sources(), project.dependencies())
+                             .pipe(project.analyzer)
+                             .pipe(reporter);
+
+    return util.collect(outputStream)
+        .then(() => reporter.report)
+        .then((report) => {
+          assert.deepEqual(report.sources, []);
+          assert.deepEqual(
+              report.dependencies, ['bower_components/unreachable-dep.html']);
+          assert.deepEqual(report.packages, []);
+          assert.deepEqual(
+              report.extraDependencies, ['bower_components/dep.html']);
+        });
+  });
+
+});
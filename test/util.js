@@ -0,0 +1,79 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+'use strict';
+
+const File = require('vinyl');
+const path = require('path');
+const stream = require('stream');
+const mergeStream = require('merge-stream');
+const ProjectConfig = require('polymer-project-config').ProjectConfig;
+
+const StreamAnalyzer = require('../lib/analyzer').StreamAnalyzer;
+
+/**
+ * The root of the in-memory projects made of files from `F()`.
+ */
+const root = path.resolve('/root');
+
+/**
+ * Returns an in-memory file at `filename`, relative to `root`.
+ */
+const F = (filename, contents) => new File({
+  cwd: root,
+  base: root,
+  path: path.resolve(root, filename),
+  contents: new Buffer(contents),
+});
+
+/**
+ * Resolves with every file that comes out of `outputStream`, by path relative
+ * to its base, once the stream has ended.
+ */
+const collect = (outputStream) => new Promise((resolve, reject) => {
+  const outputFiles = new Map();
+  outputStream.on('data', (file) => {
+    outputFiles.set(path.relative(file.base, file.path), file);
+  });
+  outputStream.on('end', () => resolve(outputFiles));
+  outputStream.on('error', reject);
+});
+
+/**
+ * Analyzes an in-memory project made of `files`, with the given project
+ * options, and pipes the analyzed files through the streams returned by
+ * `createStreams(analyzer, config)`. Resolves with the files that come out,
+ * as with `collect()`.
+ */
+const analyzeProject = (files, options, createStreams) => {
+  const config = new ProjectConfig(
+      Object.assign({root: root, sources: files.map((f) => f.path)}, options));
+  const analyzer = new StreamAnalyzer(config);
+  const sourceStream = new stream.Readable({objectMode: true});
+  const outputStream =
+      createStreams(analyzer, config)
+          .reduce(
+              (input, output) => input.pipe(output),
+              mergeStream(sourceStream, analyzer.dependencies).pipe(analyzer));
+  files.forEach((f) => sourceStream.push(f));
+  sourceStream.push(null);
+  return collect(outputStream);
+};
+
+module.exports = {
+  root: root,
+  F: F,
+  collect: collect,
+  analyzeProject: analyzeProject,
+};
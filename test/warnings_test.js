@@ -0,0 +1,112 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+
+'use strict';
+
+const assert = require('chai').assert;
+const fs = require('fs');
+const path = require('path');
+const temp = require('temp').track();
+
+const warnings = require('../lib/warnings');
+
+suite('warnings', () => {
+
+  const warning = (code, severity, file) => ({
+    code: code,
+    message: `a <${code}> happened`,
+    severity: severity,
+    sourceRange: {
+      file: file,
+      start: {line: 2, column: 4},
+      end: {line: 2, column: 8},
+    },
+  });
+
+  test('applyWarningPolicy()', () => {
+    const original = warning('could-not-load', 0, 'src/a.html');
+    const result = warnings.applyWarningPolicy(
+        [
+          original,
+          warning('unknown-element', 1, 'src/a.html'),
+          warning('parse-error', 0, 'bower_components/x/x.html'),
+        ],
+        {
+          severities: {'could-not-load': 'info', 'unknown-element': 'ignore'},
+          ignoreFiles: ['bower_components/**'],
+        });
+    assert.equal(result.length, 1);
+    assert.equal(result[0].code, 'could-not-load');
+    assert.equal(result[0].severity, 2);
+    assert.equal(original.severity, 0);
+  });
+
+  test('countFailures()', () => {
+    const all = [warning('a', 0, 'a.html'), warning('b', 1, 'a.html')];
+    assert.equal(warnings.countFailures(all), 1);
+    assert.equal(warnings.countFailures(all, {failOnWarnings: true}), 2);
+  });
+
+  test('getCodeFrame()', () => {
+    const contents = 'a\nb\n  cde\nf\ng\nh';
+    assert.equal(
+        warnings.getCodeFrame(
+            contents, {start: {line: 2, column: 3}, end: {line: 2, column: 4}}),
+        '  1 | a\n' +
+            '  2 | b\n' +
+            '> 3 |   cde\n' +
+            '    |    ^\n' +
+            '  4 | f\n' +
+            '  5 | g');
+  });
+
+  test('formats warnings as checkstyle XML', () => {
+    const xml = warnings.formatWarningsAsCheckstyle(
+        [warning('parse-error', 0, 'src/a.html')]);
+    assert.include(xml, '<file name="src/a.html">');
+    assert.include(
+        xml,
+        '<error line="3" column="5" severity="error" ' +
+            'message="a &lt;parse-error&gt; happened" ' +
+            'source="polymer-build.parse-error"/>');
+  });
+
+  test('formats warnings as JUnit XML', () => {
+    const xml = warnings.formatWarningsAsJUnit(
+        [warning('parse-error', 1, 'src/a.html')]);
+    assert.include(
+        xml, '<testsuite name="polymer-build" tests="1" failures="1"');
+    assert.include(
+        xml,
+        '<testcase classname="src/a.html" name="[parse-error] src/a.html:3:5">');
+    assert.include(xml, '<failure type="warning"');
+  });
+
+  test('jsonReporter() writes the warnings to a file', () => {
+    const root = temp.mkdirSync('polymer-build');
+    warnings.jsonReporter('reports/out.json')
+        .report([warning('parse-error', 0, 'src/a.html')], root);
+    const outputPath = path.join(root, 'reports/out.json');
+    assert.deepEqual(JSON.parse(fs.readFileSync(outputPath, 'utf8')), [{
+                       code: 'parse-error',
+                       message: 'a <parse-error> happened',
+                       severity: 'error',
+                       file: 'src/a.html',
+                       line: 3,
+                       column: 5,
+                     }]);
+  });
+
+});
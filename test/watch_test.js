@@ -0,0 +1,189 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+'use strict';
+
+const assert = require('chai').assert;
+const File = require('vinyl');
+const path = require('path');
+const stream = require('stream');
+const mergeStream = require('merge-stream');
+const ProjectConfig = require('polymer-project-config').ProjectConfig;
+
+const StreamAnalyzer = require('../lib/analyzer').StreamAnalyzer;
+const Bundler = require('../lib/bundle').Bundler;
+const IncrementalBundler = require('../lib/watch').IncrementalBundler;
+const PolymerProject = require('../lib/polymer-project').PolymerProject;
+
+const root = path.resolve('/root');
+
+suite('IncrementalBundler', () => {
+
+  let analyzer;
+  let bundler;
+
+  setup(() => {
+    const files = [
+      F('shell.html', '<div id="shell"></div>'),
+      F('entrypointB.html',
+        '<link rel="import" href="commonDep.html"><div id="B"></div>'),
+      F('entrypointC.html',
+        '<link rel="import" href="commonDep.html"><div id="C"></div>'),
+      F('entrypointD.html', '<div id="D"></div>'),
+      F('commonDep.html', '<div id="commonDep"></div>'),
+    ];
+    const config = new ProjectConfig({
+      root: root,
+      shell: 'shell.html',
+      fragments: ['entrypointB.html', 'entrypointC.html', 'entrypointD.html'],
+      sources: files.map((f) => f.path),
+    });
+    analyzer = new StreamAnalyzer(config);
+    bundler = new Bundler(config, analyzer);
+    const sourceStream = new stream.Readable({objectMode: true});
+    const bundledStream = mergeStream(sourceStream, analyzer.dependencies)
+                              .pipe(analyzer)
+                              .pipe(bundler);
+    files.forEach((f) => sourceStream.push(f));
+    sourceStream.push(null);
+    return new Promise((resolve, reject) => {
+      bundledStream.on('data', () => {});
+      bundledStream.on('end', resolve);
+      bundledStream.on('error', reject);
+    });
+  });
+
+  const rebuild = (changedFile) => new Promise((resolve, reject) => {
+    const incrementalBundler = new IncrementalBundler(analyzer, bundler);
+    const files = new Map();
+    incrementalBundler.on(
+        'data',
+        (file) =>
+            files.set(path.basename(file.path), file.contents.toString()));
+    incrementalBundler.on('end', () => resolve(files));
+    incrementalBundler.on('error', reject);
+    incrementalBundler.end(changedFile);
+  });
+
+  test('only rebuilds a fragment that changed', () => {
+    return rebuild(F('entrypointD.html', '<div id="D2"></div>'))
+        .then((files) => {
+          assert.sameMembers(Array.from(files.keys()), ['entrypointD.html']);
+          assert.include(files.get('entrypointD.html'), 'D2');
+        });
+  });
+
+  test('rebuilds the fragments that depend on a changed file', () => {
+    return rebuild(F('commonDep.html', '<div id="commonDep2"></div>'))
+        .then((files) => {
+          assert.sameMembers(
+              Array.from(files.keys()),
+              ['shell.html', 'entrypointB.html', 'entrypointC.html']);
+          // shared dependencies are bundled into the shell
+          assert.include(files.get('shell.html'), 'commonDep2');
+          assert.notInclude(files.get('entrypointB.html'), 'commonDep');
+        });
+  });
+
+  test('updates the dependency index for new imports', () => {
+    return rebuild(F('entrypointD.html',
+                     '<link rel="import" href="commonDep.html">'))
+        .then((files) => analyzer.analyzeDependencies)
+        .then((depsIndex) => {
+          assert.sameMembers(depsIndex.depsToFragments.get('commonDep.html'), [
+            path.resolve(root, 'entrypointB.html'),
+            path.resolve(root, 'entrypointC.html'),
+            path.resolve(root, 'entrypointD.html'),
+          ]);
+        });
+  });
+
+  test('ignores files that no fragment depends on', () => {
+    return rebuild(F('unused.html', '<div></div>')).then((files) => {
+      assert.equal(files.size, 0);
+    });
+  });
+
+});
+
+suite('project.watch()', () => {
+
+  let project;
+
+  setup(() => {
+    const files = [
+      F('shell.html',
+        '<link rel="import" href="shellDep.html"><div id="shell"></div>'),
+      F('shellDep.html', '<div id="shellDep"></div>'),
+      F('entrypointB.html',
+        '<link rel="import" href="commonDep.html"><div id="B"></div>'),
+      F('entrypointC.html',
+        '<link rel="import" href="commonDep.html"><div id="C"></div>'),
+      F('commonDep.html', '<div id="commonDep"></div>'),
+    ];
+    project = new PolymerProject({
+      root: root,
+      shell: 'shell.html',
+      fragments: ['entrypointB.html', 'entrypointC.html'],
+      sources: files.map((f) => f.path),
+    });
+    const sourceStream = new stream.Readable({objectMode: true});
+    const bundledStream = mergeStream(sourceStream, project.dependencies())
+                              .pipe(project.analyzer)
+                              .pipe(project.bundler);
+    files.forEach((f) => sourceStream.push(f));
+    sourceStream.push(null);
+    return new Promise((resolve, reject) => {
+      bundledStream.on('data', () => {});
+      bundledStream.on('end', resolve);
+      bundledStream.on('error', reject);
+    });
+  });
+
+  // Resolves with the last rebuilt version of each file.
+  const watch = (changedFiles) => new Promise((resolve, reject) => {
+    const watchStream = project.watch();
+    const files = new Map();
+    watchStream.on(
+        'data',
+        (file) =>
+            files.set(path.basename(file.path), file.contents.toString()));
+    watchStream.on('end', () => resolve(files));
+    watchStream.on('error', reject);
+    changedFiles.forEach((f) => watchStream.write(f));
+    watchStream.close();
+  });
+
+  test('drops dependencies that are no longer shared from the shell', () => {
+    return watch([
+             // re-analyzes the shell...
+             F('shellDep.html', '<div id="shellDep2"></div>'),
+             // ...and then moves commonDep.html out of the shared set
+             F('entrypointC.html', '<div id="C2"></div>'),
+           ])
+        .then((files) => {
+          assert.include(files.get('shell.html'), 'shellDep2');
+          assert.notInclude(files.get('shell.html'), 'commonDep');
+          assert.include(files.get('entrypointB.html'), 'commonDep');
+        });
+  });
+
+});
+
+const F = (filename, contents) => new File({
+  cwd: root,
+  base: root,
+  path: path.resolve(root, filename),
+  contents: new Buffer(contents),
+});